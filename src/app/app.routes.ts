@@ -1,6 +1,8 @@
 import { Routes } from '@angular/router';
 import { authGuard } from './guards/auth.guard';
 import { unauthGuard } from './guards/unauth.guard';
+import { unsavedChangesGuard } from './guards/unsaved-changes.guard';
+import { moderatorGuard } from './guards/moderator.guard';
 
 export const routes: Routes = [
   {
@@ -14,19 +16,58 @@ export const routes: Routes = [
       import('./pages/subreddit/subreddit.component').then((m) => m.SubredditComponent),
     title: 'Subreddit',
   },
+  {
+    path: 'r/:subreddit/settings',
+    loadComponent: () =>
+      import('./pages/subreddit-settings/subreddit-settings.component').then(
+        (m) => m.SubredditSettingsComponent,
+      ),
+    canActivate: [authGuard, moderatorGuard],
+    title: 'Community Settings',
+  },
   {
     path: 'posts/:id',
     loadComponent: () =>
       import('./pages/post-detail/post-detail.component').then((m) => m.PostDetailComponent),
+    canDeactivate: [unsavedChangesGuard],
     title: 'Post Details',
   },
+  {
+    path: 'posts/:id/comments/:commentId',
+    loadComponent: () =>
+      import('./pages/post-detail/post-detail.component').then((m) => m.PostDetailComponent),
+    canDeactivate: [unsavedChangesGuard],
+    title: 'Comment Thread',
+  },
   {
     path: 'create-post',
     loadComponent: () =>
       import('./pages/create-post/create-post.component').then((m) => m.CreatePostComponent),
     canActivate: [authGuard],
+    canDeactivate: [unsavedChangesGuard],
     title: 'Create Post',
   },
+  {
+    path: 'subreddits/create',
+    loadComponent: () =>
+      import('./pages/create-subreddit/create-subreddit.component').then(
+        (m) => m.CreateSubredditComponent,
+      ),
+    canActivate: [authGuard],
+    title: 'Create Community',
+  },
+  {
+    path: 'drafts',
+    loadComponent: () => import('./pages/drafts/drafts.component').then((m) => m.DraftsComponent),
+    canActivate: [authGuard],
+    title: 'Drafts',
+  },
+  {
+    path: 'saved',
+    loadComponent: () => import('./pages/saved/saved.component').then((m) => m.SavedComponent),
+    canActivate: [authGuard],
+    title: 'Saved',
+  },
   {
     path: 'auth',
     children: [
@@ -7,12 +7,19 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatBadgeModule } from '@angular/material/badge';
 import { AuthService } from './services/auth.service';
 import { ThemeService } from './services/theme.service';
 import { WebSocketService } from './services/websocket.service';
+import { MessageService } from './services/message.service';
+import { NotificationService } from './services/notification.service';
+import { PreferencesService } from './services/preferences.service';
+import { SavedService } from './services/saved.service';
+import { HiddenService } from './services/hidden.service';
 import { ErrorNotificationsComponent } from './components/error-notifications/error-notifications.component';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { filter, takeUntil } from 'rxjs/operators';
 
 @Component({
   selector: 'app-root',
@@ -27,6 +34,7 @@ import { takeUntil } from 'rxjs/operators';
     MatMenuModule,
     MatDividerModule,
     MatTooltipModule,
+    MatBadgeModule,
     ErrorNotificationsComponent,
   ],
   templateUrl: './app.html',
@@ -35,25 +43,40 @@ import { takeUntil } from 'rxjs/operators';
 export class App implements OnInit, OnDestroy {
   authService = inject(AuthService);
   themeService = inject(ThemeService);
+  messageService = inject(MessageService);
+  notificationService = inject(NotificationService);
+  private preferencesService = inject(PreferencesService);
+  private savedService = inject(SavedService);
+  private hiddenService = inject(HiddenService);
   private wsService = inject(WebSocketService);
   private destroy$ = new Subject<void>();
+  private isAuthenticated$ = toObservable(this.authService.isAuthenticated);
 
   ngOnInit(): void {
-    // Connect to WebSocket when authenticated
-    if (this.authService.isAuthenticated()) {
-      this.wsService.connect();
-    }
-
-    // Subscribe to auth changes to connect/disconnect WebSocket
-    this.authService.isAuthenticated;
-
-    // Handle WebSocket notifications
-    this.wsService.notifications$.pipe(takeUntil(this.destroy$)).subscribe({
-      next: (notification) => {
-        console.log('New notification:', notification);
-        // Could show a toast/snackbar here
-      },
-    });
+    // Set up the session for whoever signs in, not just a restored session
+    this.isAuthenticated$
+      .pipe(
+        filter((authenticated) => authenticated),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(() => {
+        this.wsService.connect();
+        this.messageService.getUnreadCount().subscribe({
+          error: (error) => {
+            console.error('Error loading unread messages:', error);
+          },
+        });
+        this.notificationService.getUnreadCount().subscribe({
+          error: (error) => {
+            console.error('Error loading unread notifications:', error);
+          },
+        });
+        this.preferencesService.loadPreferences().subscribe({
+          error: (error) => {
+            console.error('Error loading preferences:', error);
+          },
+        });
+      });
 
     // Handle system announcements
     this.wsService.announcements$.pipe(takeUntil(this.destroy$)).subscribe({
@@ -80,6 +103,11 @@ export class App implements OnInit, OnDestroy {
 
   onLogout(): void {
     this.wsService.disconnect();
+    this.messageService.resetState();
+    this.notificationService.resetState();
+    this.preferencesService.resetState();
+    this.savedService.resetState();
+    this.hiddenService.resetState();
     this.authService.logout();
   }
 }
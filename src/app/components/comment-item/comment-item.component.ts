@@ -1,4 +1,16 @@
-import { Component, Input, Output, EventEmitter, signal } from '@angular/core';
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  EventEmitter,
+  inject,
+  Input,
+  OnDestroy,
+  OnInit,
+  Output,
+  signal,
+} from '@angular/core';
+import { RouterModule } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
@@ -6,7 +18,14 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
+import { MatSnackBar } from '@angular/material/snack-bar';
 import { Comment } from '../../models/post.model';
+import { draftKeys } from '../../models/draft.model';
+import { MarkdownComponent } from '../markdown/markdown.component';
+import { MarkdownEditorComponent } from '../markdown-editor/markdown-editor.component';
+import { CollapseState } from '../../services/comment-collapse.service';
+import { DraftService } from '../../services/draft.service';
+import { SavedService } from '../../services/saved.service';
 
 @Component({
   selector: 'app-comment-item',
@@ -14,20 +33,34 @@ import { Comment } from '../../models/post.model';
   imports: [
     CommonModule,
     FormsModule,
+    RouterModule,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
     MatFormFieldModule,
     MatInputModule,
+    MarkdownComponent,
+    MarkdownEditorComponent,
   ],
   templateUrl: './comment-item.component.html',
   styleUrl: './comment-item.component.scss',
 })
-export class CommentItemComponent {
+export class CommentItemComponent implements OnInit, AfterViewInit, OnDestroy {
+  private elementRef = inject(ElementRef<HTMLElement>);
+  private snackBar = inject(MatSnackBar);
+  private draftService = inject(DraftService);
+  private savedService = inject(SavedService);
+
   @Input({ required: true }) comment!: Comment;
   @Input() currentUserId?: number;
   @Input() depth: number = 0;
   @Input() maxDepth: number = 10;
+  // Deeper replies move to their own view instead of indenting further
+  @Input() continueThreadDepth: number = 5;
+  @Input() pendingReplyCounts: Record<number, number> = {};
+  @Input() highlightedCommentId?: number;
+  @Input() collapseState: CollapseState = {};
+  @Input() collapseBelowScore: number | null = null;
 
   @Output() vote = new EventEmitter<{
     commentId: number;
@@ -37,6 +70,8 @@ export class CommentItemComponent {
   @Output() edit = new EventEmitter<{ commentId: number; content: string }>();
   @Output() delete = new EventEmitter<number>();
   @Output() loadReplies = new EventEmitter<number>();
+  @Output() showNewReplies = new EventEmitter<number>();
+  @Output() collapseChange = new EventEmitter<{ commentId: number; collapsed: boolean }>();
 
   isReplying = signal(false);
   isEditing = signal(false);
@@ -44,18 +79,92 @@ export class CommentItemComponent {
   replyContent = signal('');
   editContent = signal('');
 
+  ngOnInit(): void {
+    // Reopen reply and edit boxes that were left with text in them
+    this.draftService.ready.then(() => {
+      const replyDraft = this.draftService.get(this.replyDraftKey);
+      if (replyDraft && this.canReply) {
+        this.replyContent.set(replyDraft.content);
+        this.isReplying.set(true);
+      }
+
+      const editDraft = this.draftService.get(this.editDraftKey);
+      if (editDraft && this.isAuthor) {
+        this.editContent.set(editDraft.content);
+        this.isEditing.set(true);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.draftService.release(this.replyDraftKey);
+    this.draftService.release(this.editDraftKey);
+  }
+
+  ngAfterViewInit(): void {
+    if (this.isHighlighted) {
+      this.elementRef.nativeElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }
+
+  get isHighlighted(): boolean {
+    return this.highlightedCommentId === this.comment.id;
+  }
+
+  get permalink(): (string | number)[] {
+    return ['/posts', this.comment.postId, 'comments', this.comment.id];
+  }
+
+  private get replyDraftKey(): string {
+    return draftKeys.comment(this.comment.postId, this.comment.id);
+  }
+
+  private get editDraftKey(): string {
+    return draftKeys.edit(this.comment.id);
+  }
+
+  // The user's own choice wins over the API flag and the low-score rule
+  get isCollapsed(): boolean {
+    const choice = this.collapseState[this.comment.id];
+    if (choice !== undefined) return choice;
+
+    const belowThreshold =
+      this.collapseBelowScore !== null && this.comment.score < this.collapseBelowScore;
+    return this.comment.isCollapsed || belowThreshold;
+  }
+
   get isAuthor(): boolean {
     return this.currentUserId === this.comment.author.id;
   }
 
+  get isSaved(): boolean {
+    return this.savedService.isSaved('comment', this.comment.id, this.comment.isSaved);
+  }
+
   get canReply(): boolean {
     return this.depth < this.maxDepth;
   }
 
+  get newReplyCount(): number {
+    return this.pendingReplyCounts[this.comment.id] ?? 0;
+  }
+
+  get continuesThread(): boolean {
+    return this.depth >= this.continueThreadDepth && this.comment.replyCount > 0;
+  }
+
   get indentClass(): string {
     return `indent-${Math.min(this.depth, 5)}`;
   }
 
+  toggleCollapse(): void {
+    this.collapseChange.emit({ commentId: this.comment.id, collapsed: !this.isCollapsed });
+  }
+
+  trackById(_index: number, comment: Comment): number {
+    return comment.id;
+  }
+
   toggleReplies(): void {
     this.showReplies.set(!this.showReplies());
     if (this.showReplies() && this.comment.replyCount > 0 && this.comment.replies.length === 0) {
@@ -63,48 +172,109 @@ export class CommentItemComponent {
     }
   }
 
+  revealNewReplies(): void {
+    this.showReplies.set(true);
+    this.showNewReplies.emit(this.comment.id);
+  }
+
   startReply(): void {
     this.isReplying.set(true);
-    this.replyContent.set('');
+    this.replyContent.set(this.draftService.get(this.replyDraftKey)?.content ?? '');
+  }
+
+  onReplyChange(content: string): void {
+    this.draftService.save({
+      key: this.replyDraftKey,
+      kind: 'reply',
+      content,
+      context: `Reply to u/${this.comment.author.username}`,
+      url: this.permalink.join('/'),
+    });
   }
 
   cancelReply(): void {
-    this.isReplying.set(false);
-    this.replyContent.set('');
+    this.draftService.discard(this.replyDraftKey);
+    this.closeReply();
   }
 
   submitReply(): void {
     const content = this.replyContent().trim();
     if (content) {
+      // The draft is discarded once the reply is actually posted
       this.reply.emit({ commentId: this.comment.id, content });
-      this.cancelReply();
+      this.draftService.release(this.replyDraftKey);
+      this.closeReply();
     }
   }
 
   startEdit(): void {
     this.isEditing.set(true);
-    this.editContent.set(this.comment.content);
+    this.editContent.set(this.draftService.get(this.editDraftKey)?.content ?? this.comment.content);
+  }
+
+  onEditChange(content: string): void {
+    if (content.trim() === this.comment.content) {
+      this.draftService.discard(this.editDraftKey);
+      return;
+    }
+
+    this.draftService.save({
+      key: this.editDraftKey,
+      kind: 'edit',
+      content,
+      context: 'Edit of your comment',
+      url: this.permalink.join('/'),
+    });
   }
 
   cancelEdit(): void {
-    this.isEditing.set(false);
-    this.editContent.set('');
+    this.draftService.discard(this.editDraftKey);
+    this.closeEdit();
   }
 
   submitEdit(): void {
     const content = this.editContent().trim();
     if (content && content !== this.comment.content) {
+      // The draft is discarded once the edit is actually saved
       this.edit.emit({ commentId: this.comment.id, content });
-      this.cancelEdit();
+      this.draftService.release(this.editDraftKey);
+      this.closeEdit();
     }
   }
 
+  private closeReply(): void {
+    this.isReplying.set(false);
+    this.replyContent.set('');
+  }
+
+  private closeEdit(): void {
+    this.isEditing.set(false);
+    this.editContent.set('');
+  }
+
   onVote(voteType: 'UPVOTE' | 'DOWNVOTE'): void {
     // If clicking the same vote, remove it (toggle)
     const newVote = this.comment.userVote === voteType ? null : voteType;
     this.vote.emit({ commentId: this.comment.id, voteType: newVote });
   }
 
+  copyPermalink(): void {
+    const url = `${window.location.origin}/posts/${this.comment.postId}/comments/${this.comment.id}`;
+    navigator.clipboard.writeText(url).then(
+      () => this.snackBar.open('Link copied to clipboard', 'Close', { duration: 3000 }),
+      () => this.snackBar.open('Could not copy link', 'Close', { duration: 3000 }),
+    );
+  }
+
+  toggleSave(): void {
+    const request = this.isSaved
+      ? this.savedService.unsave('comment', this.comment.id)
+      : this.savedService.save('comment', this.comment.id);
+    request.subscribe({
+      error: (err) => console.error('Error saving comment:', err),
+    });
+  }
+
   onDelete(): void {
     if (confirm('Are you sure you want to delete this comment?')) {
       this.delete.emit(this.comment.id);
@@ -144,4 +314,12 @@ export class CommentItemComponent {
   onNestedLoadReplies(commentId: number): void {
     this.loadReplies.emit(commentId);
   }
+
+  onNestedShowNewReplies(commentId: number): void {
+    this.showNewReplies.emit(commentId);
+  }
+
+  onNestedCollapseChange(event: { commentId: number; collapsed: boolean }): void {
+    this.collapseChange.emit(event);
+  }
 }
@@ -1,4 +1,19 @@
-import { Component, Input, OnInit, signal } from '@angular/core';
+import {
+  Component,
+  computed,
+  DestroyRef,
+  inject,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  signal,
+  SimpleChanges,
+} from '@angular/core';
+import { takeUntilDestroyed, toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { Observable, of } from 'rxjs';
+import { distinctUntilChanged, map, switchMap } from 'rxjs/operators';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
@@ -7,10 +22,29 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatMenuModule } from '@angular/material/menu';
 import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
-import { Comment, CreateCommentDto } from '../../models/post.model';
+import {
+  Comment,
+  COMMENT_SORT_OPTIONS,
+  CommentSort,
+  CreateCommentDto,
+  isCommentSort,
+} from '../../models/post.model';
+import { WebSocketCommentUpdate } from '../../models/websocket.model';
+import { draftKeys } from '../../models/draft.model';
+import { AuthService } from '../../services/auth.service';
+import { CollapseState, CommentCollapseService } from '../../services/comment-collapse.service';
 import { CommentService } from '../../services/comment.service';
+import { DraftService } from '../../services/draft.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { VoteStoreService } from '../../services/vote-store.service';
+import { WebSocketService } from '../../services/websocket.service';
 import { CommentItemComponent } from '../comment-item/comment-item.component';
+import { MarkdownEditorComponent } from '../markdown-editor/markdown-editor.component';
+
+// Ancestors fetched for the breadcrumb trail above a permalinked comment
+const MAX_BREADCRUMBS = 8;
 
 @Component({
   selector: 'app-comment-list',
@@ -18,23 +52,41 @@ import { CommentItemComponent } from '../comment-item/comment-item.component';
   imports: [
     CommonModule,
     FormsModule,
+    RouterModule,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
     MatFormFieldModule,
     MatInputModule,
     MatProgressSpinnerModule,
+    MatMenuModule,
     MatPaginatorModule,
     CommentItemComponent,
+    MarkdownEditorComponent,
   ],
   templateUrl: './comment-list.component.html',
   styleUrl: './comment-list.component.scss',
 })
-export class CommentListComponent implements OnInit {
+export class CommentListComponent implements OnInit, OnChanges, OnDestroy {
   @Input({ required: true }) postId!: number;
   @Input() currentUserId?: number;
+  @Input() postAuthorId?: number;
+  @Input() postTitle?: string;
+  // Permalink view: show only this comment's thread with a few parents above it
+  @Input() focusCommentId?: number;
+  @Input() contextLevels: number = 3;
+
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private authService = inject(AuthService);
+  private preferencesService = inject(PreferencesService);
+  private collapseService = inject(CommentCollapseService);
+  private draftService = inject(DraftService);
+  private voteStore = inject(VoteStoreService);
 
   comments = signal<Comment[]>([]);
+  focusedComment = signal<Comment | null>(null);
+  threadAncestors = signal<Comment[]>([]);
   newCommentContent = signal('');
   isSubmitting = signal(false);
 
@@ -44,18 +96,97 @@ export class CommentListComponent implements OnInit {
   totalElements = signal(0);
   totalPages = signal(0);
 
-  constructor(public commentService: CommentService) {}
+  // Sorting: ?sort= in the URL wins, otherwise the user's saved choice
+  readonly sortOptions = COMMENT_SORT_OPTIONS;
+  private urlSort = toSignal(
+    this.route.queryParamMap.pipe(
+      map((params) => params.get('sort')),
+      map((sort) => (isCommentSort(sort) ? sort : null)),
+    ),
+    { initialValue: null },
+  );
+  sort = computed<CommentSort>(() => this.urlSort() ?? this.preferencesService.commentSort());
+  sortLabel = computed(() => this.sortOptions.find((o) => o.value === this.sort())?.label ?? '');
+  private sort$ = toObservable(this.sort);
+
+  // Collapse choices for this post; comments without one fall back to the preference threshold
+  collapseState = signal<CollapseState>({});
+  collapseBelowScore = computed(() => this.preferencesService.collapseBelowScore());
+
+  // Comments pushed over the socket, held back until the reader asks for them
+  pendingComments = signal<Comment[]>([]);
+  pendingTopLevel = computed(() => this.pendingComments().filter((c) => c.parentId === null));
+  pendingReplyCounts = computed(() => {
+    const counts: Record<number, number> = {};
+    for (const comment of this.pendingComments()) {
+      if (comment.parentId !== null) {
+        counts[comment.parentId] = (counts[comment.parentId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  });
+
+  constructor(
+    public commentService: CommentService,
+    private wsService: WebSocketService,
+    private destroyRef: DestroyRef,
+  ) {}
 
   ngOnInit(): void {
-    this.loadComments();
+    this.collapseState.set(this.collapseService.getState(this.postId));
+    this.draftService.ready.then(() => {
+      const draft = this.draftService.get(draftKeys.comment(this.postId));
+      if (draft && !this.newCommentContent()) {
+        this.newCommentContent.set(draft.content);
+      }
+    });
+
+    // Emits the initial sort too, which performs the first load
+    this.sort$.pipe(distinctUntilChanged(), takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.currentPage.set(0);
+      this.loadComments();
+    });
+
+    this.wsService
+      .getCommentUpdatesForPost(this.postId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (update) => this.onCommentUpdate(update),
+      });
+
+    // Optimistic votes, rollbacks and live scores
+    this.voteStore
+      .changesFor('COMMENT')
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(({ target, id, ...votes }) => {
+        if (!this.findComment(id)) return;
+        this.updateCommentTree(id, (c) => ({ ...c, ...votes }));
+      });
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const focusChanged = changes['focusCommentId'] || changes['contextLevels'];
+    if (focusChanged && !focusChanged.firstChange) {
+      this.currentPage.set(0);
+      this.loadComments();
+    }
   }
 
   loadComments(): void {
+    this.pendingComments.set([]);
+    if (this.focusCommentId) {
+      this.loadThread(this.focusCommentId);
+      return;
+    }
+    this.focusedComment.set(null);
+    this.threadAncestors.set([]);
     this.commentService
-      .getPostComments(this.postId, this.currentPage(), this.pageSize())
+      .getPostComments(this.postId, this.currentPage(), this.pageSize(), this.sort())
       .subscribe({
         next: (response) => {
-          this.comments.set(response.content);
+          this.comments.set(
+            this.sort() === 'qa' ? this.pullAuthorThreadsUp(response.content) : response.content,
+          );
           this.totalElements.set(response.totalElements);
           this.totalPages.set(response.totalPages);
         },
@@ -65,6 +196,86 @@ export class CommentListComponent implements OnInit {
       });
   }
 
+  /**
+   * Load a single comment with its replies, nesting up to contextLevels parents above it
+   */
+  private loadThread(commentId: number): void {
+    this.commentService
+      .getComment(commentId)
+      .pipe(
+        switchMap((comment) => this.withReplies(comment)),
+        switchMap((comment) =>
+          this.fetchAncestors(comment, Math.max(this.contextLevels, MAX_BREADCRUMBS)).pipe(
+            map((ancestors) => ({ comment, ancestors })),
+          ),
+        ),
+      )
+      .subscribe({
+        next: ({ comment, ancestors }) => {
+          const context = ancestors.slice(Math.max(0, ancestors.length - this.contextLevels));
+          const root = context.reduceRight<Comment>(
+            (child, parent) => ({ ...parent, replies: [child] }),
+            comment,
+          );
+
+          this.focusedComment.set(comment);
+          this.threadAncestors.set(ancestors);
+          this.comments.set([root]);
+          this.totalPages.set(0);
+        },
+        error: (error) => {
+          console.error('Error loading comment thread:', error);
+        },
+      });
+  }
+
+  private withReplies(comment: Comment): Observable<Comment> {
+    if (comment.replies.length > 0 || comment.replyCount === 0) return of(comment);
+
+    return this.commentService
+      .getCommentReplies(comment.id)
+      .pipe(map((replies) => ({ ...comment, replies })));
+  }
+
+  /**
+   * Walk up the tree from a comment; returns at most `limit` ancestors, outermost first
+   */
+  private fetchAncestors(comment: Comment, limit: number): Observable<Comment[]> {
+    if (limit <= 0 || comment.parentId === null) return of([]);
+
+    return this.commentService
+      .getComment(comment.parentId)
+      .pipe(
+        switchMap((parent) =>
+          this.fetchAncestors(parent, limit - 1).pipe(map((above) => [...above, parent])),
+        ),
+      );
+  }
+
+  onSortChange(sort: CommentSort): void {
+    if (sort === this.sort()) return;
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { sort },
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+
+    // Remember the choice for the next thread this user opens
+    const preferences = this.preferencesService;
+    if (
+      this.authService.isAuthenticated() &&
+      (!preferences.loaded() || preferences.commentSort() !== sort)
+    ) {
+      preferences.updatePreferences({ commentSort: sort }).subscribe({
+        error: (error) => {
+          console.error('Error saving comment sort:', error);
+        },
+      });
+    }
+  }
+
   onPageChange(event: PageEvent): void {
     this.currentPage.set(event.pageIndex);
     this.pageSize.set(event.pageSize);
@@ -73,6 +284,20 @@ export class CommentListComponent implements OnInit {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }
 
+  ngOnDestroy(): void {
+    this.draftService.release(draftKeys.comment(this.postId));
+  }
+
+  onCommentChange(content: string): void {
+    this.draftService.save({
+      key: draftKeys.comment(this.postId),
+      kind: 'comment',
+      content,
+      context: this.postTitle ? `Comment on "${this.postTitle}"` : 'Comment on a post',
+      url: `/posts/${this.postId}`,
+    });
+  }
+
   submitComment(): void {
     const content = this.newCommentContent().trim();
     if (!content) return;
@@ -87,11 +312,10 @@ export class CommentListComponent implements OnInit {
     this.commentService.createComment(commentData).subscribe({
       next: (newComment) => {
         // Add new comment to the top of the list
-        const currentComments = this.comments();
-        this.comments.set([newComment, ...currentComments]);
+        this.insertComments(null, [newComment]);
         this.newCommentContent.set('');
+        this.draftService.discard(draftKeys.comment(this.postId));
         this.isSubmitting.set(false);
-        this.totalElements.set(this.totalElements() + 1);
       },
       error: (error) => {
         console.error('Error creating comment:', error);
@@ -101,14 +325,10 @@ export class CommentListComponent implements OnInit {
   }
 
   onVote(event: { commentId: number; voteType: 'UPVOTE' | 'DOWNVOTE' | null }): void {
-    this.commentService.voteComment(event.commentId, event.voteType).subscribe({
-      next: (updatedComment) => {
-        this.updateCommentInList(updatedComment);
-      },
-      error: (error) => {
-        console.error('Error voting on comment:', error);
-      },
-    });
+    const comment = this.findComment(event.commentId);
+    if (comment) {
+      this.voteStore.vote('COMMENT', comment.id, comment, event.voteType);
+    }
   }
 
   onReply(event: { commentId: number; content: string }): void {
@@ -121,7 +341,8 @@ export class CommentListComponent implements OnInit {
     this.commentService.createComment(commentData).subscribe({
       next: (newReply) => {
         // Add reply to the parent comment's replies
-        this.addReplyToComment(event.commentId, newReply);
+        this.insertComments(event.commentId, [newReply]);
+        this.draftService.discard(draftKeys.comment(this.postId, event.commentId));
       },
       error: (error) => {
         console.error('Error creating reply:', error);
@@ -133,6 +354,7 @@ export class CommentListComponent implements OnInit {
     this.commentService.updateComment(event.commentId, event.content).subscribe({
       next: (updatedComment) => {
         this.updateCommentInList(updatedComment);
+        this.draftService.discard(draftKeys.edit(event.commentId));
       },
       error: (error) => {
         console.error('Error updating comment:', error);
@@ -156,6 +378,8 @@ export class CommentListComponent implements OnInit {
     this.commentService.getCommentReplies(commentId).subscribe({
       next: (replies) => {
         this.addRepliesToComment(commentId, replies);
+        const loadedIds = new Set(replies.map((r) => r.id));
+        this.pendingComments.update((pending) => pending.filter((c) => !loadedIds.has(c.id)));
       },
       error: (error) => {
         console.error('Error loading replies:', error);
@@ -163,12 +387,153 @@ export class CommentListComponent implements OnInit {
     });
   }
 
+  onCollapseChange(event: { commentId: number; collapsed: boolean }): void {
+    this.setCollapsed([event.commentId], event.collapsed);
+  }
+
+  collapseAll(): void {
+    this.setCollapsed(this.comments().map((c) => c.id), true);
+  }
+
+  expandAll(): void {
+    const ids: number[] = [];
+    const collect = (comments: Comment[]): void => {
+      for (const comment of comments) {
+        ids.push(comment.id);
+        collect(comment.replies);
+      }
+    };
+    collect(this.comments());
+    this.setCollapsed(ids, false);
+  }
+
+  trackById(_index: number, comment: Comment): number {
+    return comment.id;
+  }
+
+  private setCollapsed(commentIds: number[], collapsed: boolean): void {
+    const state = { ...this.collapseState() };
+    for (const id of commentIds) {
+      state[id] = collapsed;
+    }
+    this.collapseState.set(state);
+    this.collapseService.saveState(this.postId, state);
+  }
+
+  showNewComments(parentId: number | null): void {
+    const revealed = this.pendingComments().filter((c) => c.parentId === parentId);
+    this.insertComments(parentId, revealed);
+  }
+
+  private onCommentUpdate(update: WebSocketCommentUpdate): void {
+    if (update.isNew) {
+      this.onNewComment(update);
+    } else {
+      this.applyCommentUpdate(update);
+    }
+  }
+
+  private onNewComment(update: WebSocketCommentUpdate): void {
+    const parentId = update.parentId ?? null;
+    if (this.findComment(update.id) || this.pendingComments().some((c) => c.id === update.id)) {
+      return;
+    }
+
+    if (parentId === null) {
+      // A permalinked thread has no room for other top-level comments
+      if (this.focusCommentId) return;
+
+      // Only the first page shows the newest top-level comments
+      if (this.currentPage() !== 0) {
+        this.totalElements.update((total) => total + 1);
+        return;
+      }
+    } else {
+      const parent = this.findComment(parentId);
+      if (!parent) return;
+
+      // Replies that are not loaded yet will come in with the next "load replies"
+      if (parent.replies.length === 0 && parent.replyCount > 0) {
+        this.updateCommentTree(parentId, (c) => ({ ...c, replyCount: c.replyCount + 1 }));
+        return;
+      }
+    }
+
+    this.commentService.getCommentsByIds([update.id]).subscribe({
+      next: ([comment]) => {
+        if (!comment || this.findComment(comment.id)) return;
+
+        // The reader's own comments are already expected in the thread
+        if (comment.author.id === this.currentUserId) {
+          this.insertComments(parentId, [comment]);
+          return;
+        }
+        if (this.pendingComments().some((c) => c.id === comment.id)) return;
+        this.pendingComments.update((pending) => [...pending, { ...comment, parentId }]);
+      },
+    });
+  }
+
+  private applyCommentUpdate(update: WebSocketCommentUpdate): void {
+    const apply = (comment: Comment): Comment => ({
+      ...comment,
+      content: update.isDeleted ? '[deleted]' : (update.content ?? comment.content),
+      score: update.score,
+      upvoteCount: update.upvoteCount,
+      downvoteCount: update.downvoteCount,
+      replyCount: update.replyCount,
+      awardCount: update.awardCount,
+      updatedAt: update.updatedAt,
+      isEdited: update.isEdited ?? comment.isEdited,
+      isDeleted: update.isDeleted ?? comment.isDeleted,
+      isRemoved: update.isRemoved ?? comment.isRemoved,
+    });
+
+    if (this.findComment(update.id)) {
+      this.updateCommentTree(update.id, apply);
+    }
+
+    if (update.isDeleted || update.isRemoved) {
+      this.pendingComments.update((pending) => pending.filter((c) => c.id !== update.id));
+    } else {
+      this.pendingComments.update((pending) =>
+        pending.map((c) => (c.id === update.id ? apply(c) : c)),
+      );
+    }
+  }
+
   // Helper methods
-  private updateCommentInList(updatedComment: Comment): void {
+
+  /**
+   * Q&A order: threads the post author took part in come first, keeping the server order otherwise
+   */
+  private pullAuthorThreadsUp(comments: Comment[]): Comment[] {
+    if (this.postAuthorId === undefined) return comments;
+
+    const involvesAuthor = (comment: Comment): boolean =>
+      comment.author.id === this.postAuthorId || comment.replies.some(involvesAuthor);
+
+    const ordered = comments.map((comment) => ({
+      ...comment,
+      replies: this.pullAuthorThreadsUp(comment.replies),
+    }));
+    return [...ordered.filter(involvesAuthor), ...ordered.filter((c) => !involvesAuthor(c))];
+  }
+
+  private findComment(commentId: number, comments: Comment[] = this.comments()): Comment | null {
+    for (const comment of comments) {
+      if (comment.id === commentId) return comment;
+      const found = this.findComment(commentId, comment.replies);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private updateCommentTree(commentId: number, change: (comment: Comment) => Comment): void {
     const updateRecursive = (comments: Comment[]): Comment[] => {
       return comments.map((comment) => {
-        if (comment.id === updatedComment.id) {
-          return { ...updatedComment, replies: comment.replies };
+        if (comment.id === commentId) {
+          return change(comment);
         }
         if (comment.replies.length > 0) {
           return { ...comment, replies: updateRecursive(comment.replies) };
@@ -180,24 +545,45 @@ export class CommentListComponent implements OnInit {
     this.comments.set(updateRecursive(this.comments()));
   }
 
-  private addReplyToComment(parentId: number, reply: Comment): void {
-    const addReplyRecursive = (comments: Comment[]): Comment[] => {
+  /**
+   * Put comments at the top of their branch, skipping any already in the tree
+   */
+  private insertComments(parentId: number | null, comments: Comment[]): void {
+    const insertedIds = new Set(comments.map((c) => c.id));
+    this.pendingComments.update((pending) => pending.filter((c) => !insertedIds.has(c.id)));
+
+    const fresh = comments
+      .filter((c) => !this.findComment(c.id))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    if (fresh.length === 0) return;
+
+    if (parentId === null) {
+      this.comments.update((current) => [...fresh, ...current]);
+      this.totalElements.update((total) => total + fresh.length);
+      return;
+    }
+
+    this.updateCommentTree(parentId, (comment) => ({
+      ...comment,
+      replies: [...fresh, ...comment.replies],
+      replyCount: comment.replyCount + fresh.length,
+    }));
+  }
+
+  private updateCommentInList(updatedComment: Comment): void {
+    const updateRecursive = (comments: Comment[]): Comment[] => {
       return comments.map((comment) => {
-        if (comment.id === parentId) {
-          return {
-            ...comment,
-            replies: [reply, ...comment.replies],
-            replyCount: comment.replyCount + 1,
-          };
+        if (comment.id === updatedComment.id) {
+          return { ...updatedComment, replies: comment.replies };
         }
         if (comment.replies.length > 0) {
-          return { ...comment, replies: addReplyRecursive(comment.replies) };
+          return { ...comment, replies: updateRecursive(comment.replies) };
         }
         return comment;
       });
     };
 
-    this.comments.set(addReplyRecursive(this.comments()));
+    this.comments.set(updateRecursive(this.comments()));
   }
 
   private addRepliesToComment(parentId: number, replies: Comment[]): void {
@@ -0,0 +1,230 @@
+import {
+  Component,
+  ElementRef,
+  computed,
+  forwardRef,
+  input,
+  linkedSignal,
+  output,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MarkdownComponent } from '../markdown/markdown.component';
+
+export type MarkdownAction = 'bold' | 'italic' | 'link' | 'quote' | 'code' | 'list' | 'spoiler';
+export type PreviewLayout = 'tabs' | 'side-by-side';
+
+interface ToolbarAction {
+  id: MarkdownAction;
+  label: string;
+  icon: string;
+  key: string; // KeyboardEvent.key, pressed with Ctrl/Cmd
+  shift?: boolean;
+}
+
+const TOOLBAR_ACTIONS: ToolbarAction[] = [
+  { id: 'bold', label: 'Bold', icon: 'format_bold', key: 'b' },
+  { id: 'italic', label: 'Italic', icon: 'format_italic', key: 'i' },
+  { id: 'link', label: 'Link', icon: 'link', key: 'k' },
+  { id: 'quote', label: 'Quote', icon: 'format_quote', key: '>', shift: true },
+  { id: 'code', label: 'Code', icon: 'code', key: 'e' },
+  { id: 'list', label: 'Bulleted list', icon: 'format_list_bulleted', key: '*', shift: true },
+  { id: 'spoiler', label: 'Spoiler', icon: 'visibility_off', key: 's', shift: true },
+];
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+@Component({
+  selector: 'app-markdown-editor',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatTooltipModule, MarkdownComponent],
+  templateUrl: './markdown-editor.component.html',
+  styleUrl: './markdown-editor.component.scss',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => MarkdownEditorComponent),
+      multi: true,
+    },
+  ],
+})
+export class MarkdownEditorComponent implements ControlValueAccessor {
+  placeholder = input<string>('');
+  rows = input<number>(4);
+  maxLength = input<number>(10000);
+  previewLayout = input<PreviewLayout>('tabs');
+  error = input<string | null>(null);
+
+  // Ctrl/Cmd+Enter, for hosts that submit from the keyboard
+  submitShortcut = output<void>();
+
+  private textarea = viewChild<ElementRef<HTMLTextAreaElement>>('textarea');
+
+  readonly actions = TOOLBAR_ACTIONS;
+  value = signal('');
+  disabled = signal(false);
+  layout = linkedSignal(() => this.previewLayout());
+  tab = signal<'write' | 'preview'>('write');
+
+  showWrite = computed(() => this.layout() === 'side-by-side' || this.tab() === 'write');
+  showPreview = computed(() => this.layout() === 'side-by-side' || this.tab() === 'preview');
+  nearLimit = computed(() => this.value().length >= this.maxLength() * 0.9);
+
+  private onChange: (value: string) => void = () => {};
+  private onTouched: () => void = () => {};
+
+  // ── ControlValueAccessor ──
+
+  writeValue(value: string | null): void {
+    this.value.set(value ?? '');
+  }
+
+  registerOnChange(fn: (value: string) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.disabled.set(isDisabled);
+  }
+
+  // ── Template handlers ──
+
+  onInput(event: Event): void {
+    this.update((event.target as HTMLTextAreaElement).value);
+  }
+
+  onBlur(): void {
+    this.onTouched();
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey)) return;
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.submitShortcut.emit();
+      return;
+    }
+
+    const action = this.actions.find(
+      (a) => a.key === event.key.toLowerCase() && !!a.shift === event.shiftKey,
+    );
+    if (action) {
+      event.preventDefault();
+      this.apply(action.id);
+    }
+  }
+
+  shortcutLabel(action: ToolbarAction): string {
+    const mod = isMac ? '⌘' : 'Ctrl+';
+    return `${mod}${action.shift ? 'Shift+' : ''}${action.key.toUpperCase()}`;
+  }
+
+  toggleLayout(): void {
+    this.layout.update((layout) => (layout === 'tabs' ? 'side-by-side' : 'tabs'));
+    this.tab.set('write');
+  }
+
+  apply(action: MarkdownAction): void {
+    const textarea = this.textarea()?.nativeElement;
+    if (!textarea || this.disabled()) return;
+
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const selected = this.value().slice(start, end);
+
+    switch (action) {
+      case 'bold':
+        return this.wrap(start, end, '**', '**', 'bold text');
+      case 'italic':
+        return this.wrap(start, end, '_', '_', 'italic text');
+      case 'spoiler':
+        return this.wrap(start, end, '>!', '!<', 'spoiler');
+      case 'code':
+        return selected.includes('\n')
+          ? this.wrap(start, end, '```\n', '\n```', '')
+          : this.wrap(start, end, '`', '`', 'code');
+      case 'link':
+        return this.insertLink(start, end);
+      case 'quote':
+        return this.prefixLines(start, end, '> ');
+      case 'list':
+        return this.prefixLines(start, end, '- ');
+    }
+  }
+
+  // ── Text editing ──
+
+  private wrap(
+    start: number,
+    end: number,
+    before: string,
+    after: string,
+    placeholder: string,
+  ): void {
+    const text = this.value();
+    const selected = text.slice(start, end) || placeholder;
+
+    this.replace(start, end, before + selected + after);
+    const selectFrom = start + before.length;
+    this.select(selectFrom, selectFrom + selected.length);
+  }
+
+  private insertLink(start: number, end: number): void {
+    const text = this.value();
+    const label = text.slice(start, end) || 'link text';
+    const url = 'https://';
+
+    this.replace(start, end, `[${label}](${url})`);
+    // Leave the URL selected so it can be typed over
+    const urlStart = start + label.length + 3;
+    this.select(urlStart, urlStart + url.length);
+  }
+
+  /**
+   * Prefix every selected line, or strip the prefix when all lines already have it
+   */
+  private prefixLines(start: number, end: number, prefix: string): void {
+    const text = this.value();
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const nextBreak = text.indexOf('\n', end);
+    const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+
+    const lines = text.slice(lineStart, lineEnd).split('\n');
+    const allPrefixed = lines.every((line) => line.startsWith(prefix));
+    const updated = lines
+      .map((line) => (allPrefixed ? line.slice(prefix.length) : prefix + line))
+      .join('\n');
+
+    this.replace(lineStart, lineEnd, updated);
+    this.select(lineStart, lineStart + updated.length);
+  }
+
+  private replace(start: number, end: number, insert: string): void {
+    const text = this.value();
+    this.update(text.slice(0, start) + insert + text.slice(end));
+  }
+
+  private select(start: number, end: number): void {
+    const textarea = this.textarea()?.nativeElement;
+    if (!textarea) return;
+
+    // Write through now so the selection lands on the new text before change detection
+    textarea.value = this.value();
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  }
+
+  private update(value: string): void {
+    const capped = value.slice(0, this.maxLength());
+    this.value.set(capped);
+    this.onChange(capped);
+  }
+}
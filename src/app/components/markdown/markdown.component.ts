@@ -0,0 +1,43 @@
+import { Component, computed, inject, input, ViewEncapsulation } from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
+import { Router } from '@angular/router';
+import { renderMarkdown } from '../../utils/markdown.utils';
+
+@Component({
+  selector: 'app-markdown',
+  standalone: true,
+  templateUrl: './markdown.component.html',
+  styleUrl: './markdown.component.scss',
+  // Rendered HTML carries no component attributes, so styles are scoped by .markdown-body instead
+  encapsulation: ViewEncapsulation.None,
+})
+export class MarkdownComponent {
+  private sanitizer = inject(DomSanitizer);
+  private router = inject(Router);
+
+  content = input<string | null | undefined>('');
+
+  // renderMarkdown sanitizes with DOMPurify; Angular's sanitizer would strip classes and link targets
+  html = computed(() => this.sanitizer.bypassSecurityTrustHtml(renderMarkdown(this.content())));
+
+  onClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+
+    // First click on a spoiler reveals it, without following links inside
+    const spoiler = target.closest('.md-spoiler');
+    if (spoiler && !spoiler.classList.contains('revealed')) {
+      spoiler.classList.add('revealed');
+      event.preventDefault();
+      return;
+    }
+
+    // In-app links (mentions, relative paths) go through the router
+    const link = target.closest('a');
+    const href = link?.getAttribute('href');
+    if (!href || !href.startsWith('/') || href.startsWith('//')) return;
+    if (event.button !== 0 || event.ctrlKey || event.metaKey || event.shiftKey) return;
+
+    event.preventDefault();
+    this.router.navigateByUrl(href);
+  }
+}
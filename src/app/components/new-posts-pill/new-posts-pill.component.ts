@@ -0,0 +1,17 @@
+import { Component, input, output } from '@angular/core';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+
+@Component({
+  selector: 'app-new-posts-pill',
+  standalone: true,
+  imports: [MatIconModule, MatProgressSpinnerModule],
+  templateUrl: './new-posts-pill.component.html',
+  styleUrl: './new-posts-pill.component.scss',
+})
+export class NewPostsPillComponent {
+  count = input.required<number>();
+  loading = input<boolean>(false);
+
+  show = output<void>();
+}
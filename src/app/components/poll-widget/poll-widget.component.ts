@@ -0,0 +1,106 @@
+import { Component, DestroyRef, OnInit, computed, inject, input, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { PollService } from '../../services/poll.service';
+import { AuthService } from '../../services/auth.service';
+import { WebSocketService } from '../../services/websocket.service';
+import {
+  Poll,
+  PollOption,
+  PollResult,
+  applyPollResult,
+  getPollOptionPercent,
+} from '../../models/poll.model';
+import { PUBLIC_TOPICS } from '../../models/websocket.model';
+import { FormatNumberPipe } from '../../pipes/format.pipes';
+
+@Component({
+  selector: 'app-poll-widget',
+  standalone: true,
+  imports: [CommonModule, SharedMaterialModule, FormatNumberPipe],
+  templateUrl: './poll-widget.component.html',
+  styleUrl: './poll-widget.component.scss',
+})
+export class PollWidgetComponent implements OnInit {
+  private pollService = inject(PollService);
+  private authService = inject(AuthService);
+  private wsService = inject(WebSocketService);
+  private router = inject(Router);
+  private destroyRef = inject(DestroyRef);
+
+  poll = input.required<Poll>();
+  compact = input<boolean>(false);
+
+  selectedOptionIds = signal<number[]>([]);
+  isSubmitting = signal(false);
+
+  private latestResult = signal<PollResult | null>(null);
+  private castVotes = signal<number[] | null>(null);
+
+  // Poll with the newest tallies applied on top of the input
+  view = computed(() => {
+    const result = this.latestResult();
+    return result ? applyPollResult(this.poll(), result) : this.poll();
+  });
+
+  userVotes = computed(() => this.castVotes() ?? this.poll().userVotes);
+  hasVoted = computed(() => this.userVotes().length > 0);
+  showResults = computed(() => this.hasVoted() || this.view().isClosed);
+
+  ngOnInit(): void {
+    this.wsService
+      .watch<PollResult>(PUBLIC_TOPICS.pollResults(this.poll().postId))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((result) => this.latestResult.set(result));
+  }
+
+  isSelected(optionId: number): boolean {
+    return this.selectedOptionIds().includes(optionId);
+  }
+
+  toggleOption(optionId: number): void {
+    if (this.view().allowMultiple) {
+      this.selectedOptionIds.update((ids) =>
+        ids.includes(optionId) ? ids.filter((id) => id !== optionId) : [...ids, optionId],
+      );
+    } else {
+      this.selectedOptionIds.set([optionId]);
+    }
+  }
+
+  submitVote(): void {
+    const optionIds = this.selectedOptionIds();
+    if (optionIds.length === 0 || this.isSubmitting()) return;
+
+    if (!this.authService.isAuthenticated()) {
+      this.router.navigate(['/auth/login'], {
+        queryParams: { returnUrl: this.router.url },
+      });
+      return;
+    }
+
+    this.isSubmitting.set(true);
+    this.pollService.vote(this.poll().postId, optionIds).subscribe({
+      next: (result) => {
+        this.latestResult.set(result);
+        this.castVotes.set(optionIds);
+        this.isSubmitting.set(false);
+      },
+      error: (err) => {
+        console.error('Error voting in poll:', err);
+        this.isSubmitting.set(false);
+      },
+    });
+  }
+
+  getPercent(option: PollOption): number {
+    return getPollOptionPercent(option, this.view().totalVotes);
+  }
+
+  isLeading(option: PollOption): boolean {
+    const max = Math.max(...this.view().options.map((o) => o.voteCount));
+    return max > 0 && option.voteCount === max;
+  }
+}
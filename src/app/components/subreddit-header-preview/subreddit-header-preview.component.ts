@@ -0,0 +1,32 @@
+import { Component, input, linkedSignal } from '@angular/core';
+import { MatIconModule } from '@angular/material/icon';
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+/**
+ * How a subreddit header will look with the given name, title and images,
+ * used while creating or editing a subreddit. Images that fail to load fall
+ * back to the plain header, with a warning below it.
+ */
+@Component({
+  selector: 'app-subreddit-header-preview',
+  standalone: true,
+  imports: [MatIconModule],
+  templateUrl: './subreddit-header-preview.component.html',
+  styleUrl: './subreddit-header-preview.component.scss',
+})
+export class SubredditHeaderPreviewComponent {
+  name = input<string>('');
+  title = input<string>('');
+  iconImageUrl = input<string | null>(null);
+  headerImageUrl = input<string | null>(null);
+  isOver18 = input<boolean>(false);
+
+  // Reset whenever the URL changes, so a corrected URL gets a fresh try
+  iconFailed = linkedSignal({ source: this.iconImageUrl, computation: () => false });
+  headerFailed = linkedSignal({ source: this.headerImageUrl, computation: () => false });
+
+  isUrl(value: string | null): value is string {
+    return !!value && URL_PATTERN.test(value);
+  }
+}
@@ -0,0 +1,150 @@
+import { Component, inject, input, linkedSignal, signal } from '@angular/core';
+import { NgTemplateOutlet } from '@angular/common';
+import { CdkDragDrop, DragDropModule, moveItemInArray } from '@angular/cdk/drag-drop';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { SubredditService } from '../../services/subreddit.service';
+import { Rule } from '../../models/post.model';
+import { MAX_SUBREDDIT_RULES } from '../../models/subreddit.model';
+
+const NEW_RULE = 'new';
+
+/**
+ * Moderator list of a subreddit's rules: add, edit, delete, and drag to
+ * change priority. Every change is sent right away.
+ */
+@Component({
+  selector: 'app-subreddit-rules-editor',
+  standalone: true,
+  imports: [NgTemplateOutlet, ReactiveFormsModule, DragDropModule, SharedMaterialModule],
+  templateUrl: './subreddit-rules-editor.component.html',
+  styleUrl: './subreddit-rules-editor.component.scss',
+})
+export class SubredditRulesEditorComponent {
+  private fb = inject(FormBuilder);
+  private snackBar = inject(MatSnackBar);
+  private subredditService = inject(SubredditService);
+
+  subredditId = input.required<number>();
+  initialRules = input<Rule[] | undefined>([], { alias: 'rules' });
+
+  readonly maxRules = MAX_SUBREDDIT_RULES;
+  readonly newRule = NEW_RULE;
+
+  rules = linkedSignal(() =>
+    [...(this.initialRules() ?? [])].sort((a, b) => a.priority - b.priority),
+  );
+  // Id of the rule being edited, NEW_RULE while adding one
+  editingId = signal<string | null>(null);
+  busy = signal<boolean>(false);
+
+  ruleForm = this.fb.nonNullable.group({
+    title: ['', [Validators.required, Validators.maxLength(100)]],
+    description: ['', [Validators.maxLength(500)]],
+  });
+
+  startAdd(): void {
+    this.ruleForm.reset();
+    this.editingId.set(NEW_RULE);
+  }
+
+  startEdit(rule: Rule): void {
+    this.ruleForm.reset({ title: rule.title, description: rule.description });
+    this.editingId.set(rule.id);
+  }
+
+  cancelEdit(): void {
+    this.editingId.set(null);
+  }
+
+  saveRule(): void {
+    const editingId = this.editingId();
+    if (!editingId || this.busy()) return;
+    if (this.ruleForm.invalid) {
+      this.ruleForm.markAllAsTouched();
+      return;
+    }
+
+    const value = this.ruleForm.getRawValue();
+    const data = { title: value.title.trim(), description: value.description.trim() };
+    const request =
+      editingId === NEW_RULE
+        ? this.subredditService.createRule(this.subredditId(), {
+            ...data,
+            priority: this.rules().length + 1,
+          })
+        : this.subredditService.updateRule(this.subredditId(), editingId, data);
+
+    this.busy.set(true);
+    request.subscribe({
+      next: (saved) => {
+        this.rules.update((rules) =>
+          editingId === NEW_RULE
+            ? [...rules, saved]
+            : rules.map((rule) => (rule.id === saved.id ? saved : rule)),
+        );
+        this.editingId.set(null);
+        this.busy.set(false);
+      },
+      error: () => {
+        this.busy.set(false);
+        this.snackBar.open('Could not save the rule. Please try again.', 'Close', {
+          duration: 4000,
+        });
+      },
+    });
+  }
+
+  deleteRule(rule: Rule): void {
+    if (this.busy() || !confirm(`Delete the rule "${rule.title}"?`)) return;
+
+    this.busy.set(true);
+    this.subredditService.deleteRule(this.subredditId(), rule.id).subscribe({
+      next: () => {
+        this.rules.update((rules) =>
+          rules.filter((r) => r.id !== rule.id).map((r, index) => ({ ...r, priority: index + 1 })),
+        );
+        this.busy.set(false);
+      },
+      error: () => {
+        this.busy.set(false);
+        this.snackBar.open('Could not delete the rule. Please try again.', 'Close', {
+          duration: 4000,
+        });
+      },
+    });
+  }
+
+  /**
+   * Reorder right away and put the old order back if the server refuses
+   */
+  onDrop(event: CdkDragDrop<Rule[]>): void {
+    if (event.previousIndex === event.currentIndex || this.busy()) return;
+
+    const previous = this.rules();
+    const reordered = [...previous];
+    moveItemInArray(reordered, event.previousIndex, event.currentIndex);
+    this.rules.set(reordered.map((rule, index) => ({ ...rule, priority: index + 1 })));
+
+    this.busy.set(true);
+    this.subredditService
+      .reorderRules(
+        this.subredditId(),
+        reordered.map((rule) => rule.id),
+      )
+      .subscribe({
+        next: (rules) => {
+          this.rules.set(rules);
+          this.busy.set(false);
+        },
+        error: () => {
+          this.rules.set(previous);
+          this.busy.set(false);
+          this.snackBar.open('Could not reorder the rules. Please try again.', 'Close', {
+            duration: 4000,
+          });
+        },
+      });
+  }
+}
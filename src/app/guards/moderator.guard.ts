@@ -0,0 +1,21 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { SubredditService } from '../services/subreddit.service';
+
+/**
+ * Functional guard – only lets moderators of the :subreddit route param through.
+ * Everyone else lands on the subreddit page. Run after authGuard.
+ */
+export const moderatorGuard: CanActivateFn = (route) => {
+  const subredditService = inject(SubredditService);
+  const router = inject(Router);
+  const name = route.paramMap.get('subreddit') ?? '';
+  const subredditPage = router.createUrlTree(['/r', name]);
+
+  return subredditService.getSubredditByName(name).pipe(
+    map((subreddit) => subreddit.isUserModerator || subredditPage),
+    catchError(() => of(subredditPage)),
+  );
+};
@@ -0,0 +1,23 @@
+import { inject } from '@angular/core';
+import { CanDeactivateFn } from '@angular/router';
+import { DraftService } from '../services/draft.service';
+
+/**
+ * Functional guard – confirms before leaving a page with text that has not been posted.
+ * The text is already autosaved, so leaving keeps it in the user's drafts.
+ */
+export const unsavedChangesGuard: CanDeactivateFn<unknown> = () => {
+  const draftService = inject(DraftService);
+
+  if (!draftService.hasUnsentText()) {
+    return true;
+  }
+
+  const leave = confirm(
+    'You have text that has not been posted. Leave anyway? It will be kept in your drafts.',
+  );
+  if (leave) {
+    draftService.flush();
+  }
+  return leave;
+};
@@ -0,0 +1,59 @@
+import { PostType } from './post.model';
+
+// ── Draft models (stored locally in IndexedDB, never sent to the API) ──
+
+export type DraftKind = 'post' | 'comment' | 'reply' | 'edit';
+
+export interface Draft {
+  key: string; // see draftKeys
+  userId: number;
+  kind: DraftKind;
+  title: string | null; // post drafts only
+  content: string;
+  context: string; // what the draft belongs to, shown on the drafts page
+  url: string; // where the editor lives, used to resume the draft
+  form: PostDraftForm | null; // full composer value for post drafts
+  updatedAt: string;
+}
+
+// Post composer value plus the tab it was on
+export interface PostDraftForm {
+  postType: PostType;
+  subredditId: number | null;
+  title: string;
+  content: string;
+  url: string;
+  flairText: string;
+  flairCssClass: string;
+  isSpoiler: boolean;
+  isOver18: boolean;
+  poll: {
+    options: string[];
+    durationDays: number;
+    allowMultiple: boolean;
+  };
+}
+
+export type SaveDraftInput = Omit<Draft, 'userId' | 'updatedAt' | 'title' | 'form'> &
+  Partial<Pick<Draft, 'title' | 'form'>>;
+
+// One draft per editor: the post composer, a post's comment box, a reply box or a comment edit
+export const draftKeys = {
+  post: (): string => 'post:new',
+  comment: (postId: number, parentCommentId: number | null = null): string =>
+    `comment:${postId}:${parentCommentId ?? 'root'}`,
+  edit: (commentId: number): string => `edit:${commentId}`,
+};
+
+export function getDraftIcon(kind: DraftKind): string {
+  switch (kind) {
+    case 'post':
+      return 'article';
+    case 'comment':
+      return 'chat_bubble_outline';
+    case 'reply':
+      return 'reply';
+    case 'edit':
+      return 'edit';
+  }
+}
@@ -1,9 +1,12 @@
+import { Poll } from './poll.model';
+import { Post } from './post.model';
+
 export interface FeedPost {
   id: number;
   title: string;
   content: string;
   url: string | null;
-  postType: 'TEXT' | 'IMAGE' | 'VIDEO' | 'LINK';
+  postType: 'TEXT' | 'IMAGE' | 'VIDEO' | 'LINK' | 'POLL';
   thumbnailUrl: string | null;
   flairText: string | null;
   isSpoiler: boolean;
@@ -19,6 +22,7 @@ export interface FeedPost {
   subreddit: FeedSubreddit;
   createdAt: string;
   userInteraction: UserInteraction;
+  poll?: Poll | null;
 }
 
 export interface FeedUser {
@@ -79,21 +83,82 @@ export interface FeedResponse {
   algorithmInfo: AlgorithmInfo;
   totalAvailable: number;
   hasMore: boolean;
+  nextCursor?: string | null; // opaque; absent when the server pages by offset
 }
 
 export interface FeedQueryParams {
   limit?: number;
+  cursor?: string;
+  offset?: number;
   sortBy?: 'algorithm' | 'hot' | 'new' | 'top';
   includeNsfw?: boolean;
   fromFollowingOnly?: boolean;
   timeDecayFactor?: number;
 }
 
+// Home feed scroll state remembered while a post is open
+export interface FeedViewState {
+  sortBy: 'algorithm' | 'hot' | 'new' | 'top';
+  scrollY: number;
+}
+
 export interface FeedPostRequest {
   limit?: number;
   sortBy?: 'algorithm' | 'hot' | 'new' | 'top';
-  postTypes?: ('TEXT' | 'IMAGE' | 'VIDEO' | 'LINK')[];
+  postTypes?: ('TEXT' | 'IMAGE' | 'VIDEO' | 'LINK' | 'POLL')[];
   includeNsfw?: boolean;
   includeFromFollowingOnly?: boolean;
   timeDecayFactor?: number;
 }
+
+// Helper functions
+
+// Posts fetched outside the feed (e.g. announced over the socket) carry no ranking data
+export function toFeedPost(post: Post): FeedPost {
+  return {
+    id: post.id,
+    title: post.title,
+    content: post.content ?? '',
+    url: post.url,
+    postType: post.postType,
+    thumbnailUrl: post.thumbnailUrl,
+    flairText: post.flairText,
+    isSpoiler: post.isSpoiler,
+    isOver18: post.isOver18,
+    score: post.score,
+    upvoteCount: post.upvoteCount,
+    downvoteCount: post.downvoteCount,
+    commentCount: post.commentCount,
+    viewCount: post.viewCount,
+    algorithmScore: 0,
+    reasons: [],
+    author: {
+      id: post.author.id,
+      username: post.author.username,
+      displayName: post.author.displayName,
+      avatarUrl: null,
+      karma: post.author.karma,
+      isVerified: false,
+      type: 'REGULAR',
+    },
+    subreddit: {
+      id: post.subreddit.id,
+      name: post.subreddit.name,
+      title: post.subreddit.title,
+      iconImageUrl: null,
+      isUserSubscribed: true,
+    },
+    createdAt: post.createdAt,
+    userInteraction: {
+      hasUpvoted: post.userVote === 'UPVOTE',
+      hasDownvoted: post.userVote === 'DOWNVOTE',
+      hasCommented: false,
+      hasViewed: false,
+      isSaved: false,
+      isHidden: false,
+      viewCount: 0,
+      lastInteractionAt: null,
+    },
+    poll: post.poll ?? null,
+  };
+}
@@ -0,0 +1,42 @@
+// ── Message API models (matches /api/messages/* responses) ──
+
+export interface MessageParticipant {
+  id: number;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+}
+
+export interface DirectMessage {
+  id: number;
+  conversationId: number;
+  sender: MessageParticipant;
+  recipient: MessageParticipant;
+  subject: string | null;
+  content: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: number;
+  participant: MessageParticipant; // the other side of the conversation
+  subject: string | null;
+  lastMessage: DirectMessage | null;
+  unreadCount: number;
+  updatedAt: string;
+}
+
+export interface SendMessageDto {
+  recipientUsername: string;
+  subject?: string | null;
+  content: string;
+}
+
+export interface ReplyMessageDto {
+  content: string;
+}
+
+export interface UnreadMessageCount {
+  count: number;
+}
@@ -0,0 +1,48 @@
+import { WebSocketNotification, WebSocketNotificationType } from './websocket.model';
+
+// ── Notification API models (matches /api/notifications/* responses) ──
+
+// History entries share the shape of the notifications pushed over the socket
+export type UserNotification = WebSocketNotification;
+
+export type NotificationFilter = 'all' | 'unread';
+
+export type NotificationCategory = 'comment' | 'reply' | 'upvote' | 'award' | 'follow' | 'message' | 'system';
+
+export interface UnreadNotificationCount {
+  count: number;
+}
+
+// Helper functions
+
+const NOTIFICATION_CATEGORIES: Record<WebSocketNotificationType, NotificationCategory> = {
+  COMMENT_REPLY: 'reply',
+  POST_REPLY: 'comment',
+  MENTION: 'comment',
+  UPVOTE: 'upvote',
+  DOWNVOTE: 'upvote',
+  AWARD: 'award',
+  FOLLOW: 'follow',
+  SUBREDDIT_SUBSCRIBE: 'follow',
+  MOD_INVITE: 'message',
+  MESSAGE: 'message',
+  SYSTEM: 'system',
+};
+
+const NOTIFICATION_ICONS: Record<NotificationCategory, string> = {
+  comment: 'comment',
+  reply: 'reply',
+  upvote: 'arrow_upward',
+  award: 'emoji_events',
+  follow: 'person_add',
+  message: 'mail',
+  system: 'campaign',
+};
+
+export function getNotificationCategory(type: WebSocketNotificationType): NotificationCategory {
+  return NOTIFICATION_CATEGORIES[type] ?? 'system';
+}
+
+export function getNotificationIcon(type: WebSocketNotificationType): string {
+  return NOTIFICATION_ICONS[getNotificationCategory(type)] ?? 'notifications';
+}
@@ -0,0 +1,68 @@
+// ── Poll API models (matches /api/polls/* responses) ──
+
+export interface PollOption {
+  id: number;
+  text: string;
+  position: number;
+  voteCount: number;
+}
+
+export interface Poll {
+  id: number;
+  postId: number;
+  options: PollOption[];
+  totalVotes: number;
+  allowMultiple: boolean;
+  closesAt: string | null;
+  isClosed: boolean;
+  userVotes: number[]; // option ids the current user voted for
+}
+
+export interface PollOptionResult {
+  optionId: number;
+  voteCount: number;
+}
+
+/**
+ * Vote tallies returned after casting a vote and pushed on the poll-results topic.
+ */
+export interface PollResult {
+  pollId: number;
+  postId: number;
+  options: PollOptionResult[];
+  totalVotes: number;
+  isClosed: boolean;
+}
+
+export interface CreatePollDto {
+  options: string[];
+  durationDays: number;
+  allowMultiple: boolean;
+}
+
+export interface PollVoteRequest {
+  optionIds: number[];
+}
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 6;
+export const POLL_DURATION_DAYS = [1, 2, 3, 5, 7] as const;
+
+// Helper functions
+export function applyPollResult(poll: Poll, result: PollResult): Poll {
+  const counts = new Map(result.options.map((o) => [o.optionId, o.voteCount]));
+  return {
+    ...poll,
+    options: poll.options.map((option) => ({
+      ...option,
+      voteCount: counts.get(option.id) ?? option.voteCount,
+    })),
+    totalVotes: result.totalVotes,
+    isClosed: result.isClosed,
+  };
+}
+
+export function getPollOptionPercent(option: PollOption, totalVotes: number): number {
+  if (totalVotes <= 0) return 0;
+  return Math.round((option.voteCount / totalVotes) * 100);
+}
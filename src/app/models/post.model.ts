@@ -1,3 +1,6 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { Poll, CreatePollDto } from './poll.model';
+
 // ── Post API models (matches /api/posts/* responses) ──
 
 export type PostType = 'TEXT' | 'LINK' | 'IMAGE' | 'VIDEO' | 'POLL';
@@ -41,12 +44,37 @@ export interface Post {
   updatedAt: string;
   archivedAt: string | null;
   userVote: 'UPVOTE' | 'DOWNVOTE' | null;
+  isSaved?: boolean; // present for signed-in users
+  isHidden?: boolean; // present for signed-in users
+  poll?: Poll | null; // present when postType is POLL
 }
 
 export interface PostResponse extends Post {
   // Same as Post, this is the API response type
 }
 
+export type PostSort = 'hot' | 'new' | 'top' | 'rising' | 'controversial';
+
+export const POST_SORT_OPTIONS: { value: PostSort; label: string; icon: string }[] = [
+  { value: 'hot', label: 'Hot', icon: 'local_fire_department' },
+  { value: 'new', label: 'New', icon: 'fiber_new' },
+  { value: 'top', label: 'Top', icon: 'trending_up' },
+  { value: 'rising', label: 'Rising', icon: 'show_chart' },
+  { value: 'controversial', label: 'Controversial', icon: 'bolt' },
+];
+
+// How far back "top" looks
+export type TopTimePeriod = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export const TOP_TIME_PERIOD_OPTIONS: { value: TopTimePeriod; label: string }[] = [
+  { value: 'hour', label: 'Now' },
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'This Week' },
+  { value: 'month', label: 'This Month' },
+  { value: 'year', label: 'This Year' },
+  { value: 'all', label: 'All Time' },
+];
+
 // ── Comment API models (matches /api/comments/* responses) ──
 
 export interface CommentAuthor {
@@ -79,6 +107,22 @@ export interface Comment {
   updatedAt: string;
   editedAt: string | null;
   userVote: 'UPVOTE' | 'DOWNVOTE' | null;
+  isSaved?: boolean; // present for signed-in users
+}
+
+export type CommentSort = 'best' | 'top' | 'new' | 'old' | 'controversial' | 'qa';
+
+export const COMMENT_SORT_OPTIONS: { value: CommentSort; label: string; icon: string }[] = [
+  { value: 'best', label: 'Best', icon: 'rocket_launch' },
+  { value: 'top', label: 'Top', icon: 'trending_up' },
+  { value: 'new', label: 'New', icon: 'new_releases' },
+  { value: 'old', label: 'Old', icon: 'history' },
+  { value: 'controversial', label: 'Controversial', icon: 'bolt' },
+  { value: 'qa', label: 'Q&A', icon: 'question_answer' },
+];
+
+export function isCommentSort(value: string | null): value is CommentSort {
+  return COMMENT_SORT_OPTIONS.some((option) => option.value === value);
 }
 
 export interface CommentResponse extends Comment {
@@ -148,6 +192,15 @@ export interface RegisterRequest {
   displayName?: string;
 }
 
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
 // ── Legacy aliases kept so the rest of the app still compiles ──
 
 export type User = ApiUser;
@@ -159,8 +212,29 @@ export interface UserPreferences {
   showThumbnails: boolean;
   compactView: boolean;
   language: string;
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  commentNotifications: boolean;
+  postNotifications: boolean;
+  commentSort: CommentSort;
+  collapseBelowScore: number | null; // null keeps low-score comments expanded
 }
 
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  theme: 'auto',
+  language: 'en',
+  nsfwEnabled: false,
+  autoplayEnabled: true,
+  showThumbnails: true,
+  compactView: false,
+  emailNotifications: true,
+  pushNotifications: false,
+  commentNotifications: true,
+  postNotifications: true,
+  commentSort: 'best',
+  collapseBelowScore: -5,
+};
+
 // ── RFC 7807 Problem Details ──
 
 export interface ProblemDetails {
@@ -232,6 +306,33 @@ export function extractErrorType(status: number, type?: string): ErrorType {
   return ERROR_TYPE_SLUGS[status] || 'internal';
 }
 
+function isApiError(error: unknown): error is ApiError {
+  return typeof error === 'object' && error !== null && 'problem' in error;
+}
+
+// Errors may arrive as HttpErrorResponse or wrapped in ApiError (originalError)
+export function getErrorStatus(error: unknown): number {
+  if (error instanceof HttpErrorResponse) return error.status;
+  if (!isApiError(error)) return 0;
+
+  const status = error.problem?.status;
+  return status > 0 ? status : getErrorStatus(error.originalError);
+}
+
+// Seconds until a rate-limited request may be retried (Retry-After / X-RateLimit-Reset)
+export function getRetryAfterSeconds(error: unknown): number | null {
+  if (isApiError(error)) return getRetryAfterSeconds(error.originalError);
+  if (!(error instanceof HttpErrorResponse)) return null;
+
+  const retryAfter = Number(error.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.ceil(retryAfter);
+
+  const resetAt = Number(error.headers.get('X-RateLimit-Reset'));
+  if (resetAt > 0) return Math.max(0, Math.ceil(resetAt - Date.now() / 1000));
+
+  return null;
+}
+
 export interface Vote {
   postId?: string;
   commentId?: string;
@@ -265,6 +366,33 @@ export interface VoteResult {
   userVote: VoteType | null;
 }
 
+export type VoteTarget = 'POST' | 'COMMENT';
+
+// The vote fields shared by posts, feed posts and comments
+export interface VoteState {
+  score: number;
+  upvoteCount: number;
+  downvoteCount: number;
+  userVote: VoteType | null;
+}
+
+/**
+ * Move a vote state to a new user vote, adjusting the score and counts to match
+ */
+export function applyVote(state: VoteState, userVote: VoteType | null): VoteState {
+  const weight = (vote: VoteType | null) => (vote === 'UPVOTE' ? 1 : vote === 'DOWNVOTE' ? -1 : 0);
+  const count = (vote: VoteType | null, type: VoteType) => (vote === type ? 1 : 0);
+
+  return {
+    score: state.score - weight(state.userVote) + weight(userVote),
+    upvoteCount:
+      state.upvoteCount - count(state.userVote, 'UPVOTE') + count(userVote, 'UPVOTE'),
+    downvoteCount:
+      state.downvoteCount - count(state.userVote, 'DOWNVOTE') + count(userVote, 'DOWNVOTE'),
+    userVote,
+  };
+}
+
 export interface CreatePostDto {
   title: string;
   content?: string | null;
@@ -275,6 +403,7 @@ export interface CreatePostDto {
   isSpoiler: boolean;
   isOver18: boolean;
   subredditId: number;
+  poll?: CreatePollDto | null; // required when postType is POLL
 }
 
 export interface UpdatePostDto {
@@ -0,0 +1,20 @@
+import { Comment, PostResponse, PostSubreddit } from './post.model';
+
+// ── Saved item models (matches /api/saved/* responses) ──
+
+export type SavedItemType = 'post' | 'comment';
+
+export interface SavedPost extends PostResponse {
+  savedAt: string;
+}
+
+export interface SavedComment extends Comment {
+  postTitle: string;
+  subreddit: PostSubreddit;
+  savedAt: string;
+}
+
+export interface SavedFilters {
+  subreddit?: string | null; // subreddit name
+  q?: string | null; // matches titles and content
+}
@@ -1,3 +1,5 @@
+import { Rule } from './post.model';
+
 // ── Subreddit API models (matches /api/subreddits/* responses) ──
 
 export interface SubredditCreator {
@@ -24,6 +26,7 @@ export interface SubredditResponse {
   updatedAt: string;
   isUserSubscribed: boolean;
   isUserModerator: boolean;
+  rules: Rule[]; // ordered by priority
 }
 
 export interface CreateSubredditDto {
@@ -31,11 +34,24 @@ export interface CreateSubredditDto {
   title: string;
   description?: string;
   sidebarText?: string;
+  headerImageUrl?: string;
+  iconImageUrl?: string;
   isPublic?: boolean;
   isRestricted?: boolean;
   isOver18?: boolean;
+  rules?: CreateRuleDto[];
 }
 
+export interface CreateRuleDto {
+  title: string;
+  description: string;
+  priority: number; // 1 is shown first
+}
+
+export type UpdateRuleDto = Partial<Omit<CreateRuleDto, 'priority'>>;
+
+export const MAX_SUBREDDIT_RULES = 15;
+
 export interface UpdateSubredditDto {
   title?: string;
   description?: string;
@@ -56,6 +72,52 @@ export interface PaginatedSubredditsResponse {
   last: boolean;
 }
 
+// Public: anyone can view and post. Restricted: anyone can view, approved users post.
+// Private: only approved users can view and post.
+export type SubredditVisibility = 'public' | 'restricted' | 'private';
+
+export const SUBREDDIT_VISIBILITY_OPTIONS: {
+  value: SubredditVisibility;
+  label: string;
+  icon: string;
+  description: string;
+}[] = [
+  {
+    value: 'public',
+    label: 'Public',
+    icon: 'public',
+    description: 'Anyone can view, post, and comment',
+  },
+  {
+    value: 'restricted',
+    label: 'Restricted',
+    icon: 'lock',
+    description: 'Anyone can view, but only approved users can post',
+  },
+  {
+    value: 'private',
+    label: 'Private',
+    icon: 'visibility_off',
+    description: 'Only approved users can view and post',
+  },
+];
+
+export function getSubredditVisibility(
+  subreddit: Pick<SubredditResponse, 'isPublic' | 'isRestricted'>,
+): SubredditVisibility {
+  if (!subreddit.isPublic) return 'private';
+  return subreddit.isRestricted ? 'restricted' : 'public';
+}
+
+export function toVisibilityFlags(
+  visibility: SubredditVisibility,
+): Pick<SubredditResponse, 'isPublic' | 'isRestricted'> {
+  return {
+    isPublic: visibility !== 'private',
+    isRestricted: visibility === 'restricted',
+  };
+}
+
 // Validation helpers
 export function validateSubredditName(name: string): string | null {
   if (!name || name.length < 3 || name.length > 21) {
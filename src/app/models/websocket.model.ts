@@ -10,6 +10,7 @@ export type WebSocketNotificationType =
   | 'FOLLOW'
   | 'SUBREDDIT_SUBSCRIBE'
   | 'MOD_INVITE'
+  | 'MESSAGE'
   | 'SYSTEM';
 
 export interface WebSocketNotification {
@@ -50,6 +51,9 @@ export interface WebSocketCommentUpdate {
   isEdited?: boolean;
   isDeleted?: boolean;
   isRemoved?: boolean;
+  postId?: number;
+  parentId?: number | null; // null for top-level comments
+  isNew?: boolean; // set when the comment was just created
 }
 
 export interface WebSocketKarmaUpdate {
@@ -114,12 +118,14 @@ export const USER_TOPICS = {
   votes: (username: string) => `/user/${username}/queue/votes`,
   posts: (username: string) => `/user/${username}/queue/posts`,
   comments: (username: string) => `/user/${username}/queue/comments`,
+  messages: (username: string) => `/user/${username}/queue/messages`,
 } as const;
 
 export const PUBLIC_TOPICS = {
   post: (postId: number) => `/topic/posts/${postId}`,
   postComments: (postId: number) => `/topic/posts/${postId}/comments`,
   subreddit: (subredditId: number) => `/topic/subreddits/${subredditId}`,
+  pollResults: (postId: number) => `/topic/posts/${postId}/poll`,
   announcements: '/topic/announcements',
   userStatus: (username: string) => `/topic/user-status/${username}`,
 } as const;
@@ -1,13 +1,117 @@
-import { Component } from '@angular/core';
+import { Component, DestroyRef, OnInit, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
 import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Subscription, timer } from 'rxjs';
+import { AuthService } from '../../../services/auth.service';
+import { ErrorHandlerService } from '../../../services/error-handler.service';
+import { getErrorStatus, getRetryAfterSeconds } from '../../../models/post.model';
+
+// Minimum wait between reset emails when the server does not say otherwise
+const RESEND_COOLDOWN_SECONDS = 60;
 
 @Component({
   selector: 'app-forgot-password',
   standalone: true,
-  imports: [RouterModule, MatCardModule, MatButtonModule],
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule
+  ],
   templateUrl: './forgot-password.component.html',
   styleUrl: './forgot-password.component.scss'
 })
-export class ForgotPasswordComponent {}
+export class ForgotPasswordComponent implements OnInit {
+  private fb = inject(FormBuilder);
+  private destroyRef = inject(DestroyRef);
+  authService = inject(AuthService);
+  errorHandler = inject(ErrorHandlerService);
+
+  emailSent = signal(false);
+  sentTo = signal('');
+  cooldown = signal(0);
+
+  private cooldownSub?: Subscription;
+
+  forgotForm: FormGroup = this.fb.group({
+    email: ['', [Validators.required, Validators.email]]
+  });
+
+  ngOnInit(): void {
+    this.authService.error.set(null);
+    this.destroyRef.onDestroy(() => this.cooldownSub?.unsubscribe());
+  }
+
+  onSubmit(): void {
+    if (this.forgotForm.invalid) {
+      this.forgotForm.markAllAsTouched();
+      return;
+    }
+    if (this.cooldown() > 0) return;
+
+    const email = this.forgotForm.value.email.trim();
+
+    this.authService.forgotPassword(email).pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      next: () => {
+        this.sentTo.set(email);
+        this.emailSent.set(true);
+        this.startCooldown(RESEND_COOLDOWN_SECONDS);
+      },
+      error: (err) => {
+        if (getErrorStatus(err) === 429) {
+          this.startCooldown(getRetryAfterSeconds(err) ?? RESEND_COOLDOWN_SECONDS);
+        }
+      }
+    });
+  }
+
+  // Send the link again to the same address
+  resend(): void {
+    this.forgotForm.patchValue({ email: this.sentTo() });
+    this.onSubmit();
+  }
+
+  // Go back to the form to try a different address
+  useDifferentEmail(): void {
+    this.emailSent.set(false);
+    this.authService.error.set(null);
+  }
+
+  // Get field-specific errors from the error handler
+  getFieldError(fieldName: string): string | null {
+    const notifications = this.errorHandler.notifications();
+    const latestError = notifications[notifications.length - 1];
+
+    if (latestError?.fieldErrors && latestError.fieldErrors[fieldName]) {
+      return latestError.fieldErrors[fieldName];
+    }
+
+    return null;
+  }
+
+  private startCooldown(seconds: number): void {
+    this.cooldownSub?.unsubscribe();
+    this.cooldown.set(seconds);
+
+    this.cooldownSub = timer(1000, 1000).subscribe(() => {
+      const remaining = this.cooldown() - 1;
+      this.cooldown.set(Math.max(0, remaining));
+      if (remaining <= 0) {
+        this.cooldownSub?.unsubscribe();
+      }
+    });
+  }
+}
@@ -1,13 +1,129 @@
-import { Component } from '@angular/core';
-import { RouterModule } from '@angular/router';
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators, AbstractControl, ValidationErrors } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
 import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { AuthService } from '../../../services/auth.service';
+import { ErrorHandlerService } from '../../../services/error-handler.service';
+
+interface PasswordRule {
+  key: string;
+  label: string;
+  test: (value: string) => boolean;
+}
+
+const PASSWORD_RULES: PasswordRule[] = [
+  { key: 'length', label: 'At least 8 characters', test: (v) => v.length >= 8 },
+  { key: 'lowercase', label: 'A lowercase letter', test: (v) => /[a-z]/.test(v) },
+  { key: 'uppercase', label: 'An uppercase letter', test: (v) => /[A-Z]/.test(v) },
+  { key: 'number', label: 'A number', test: (v) => /\d/.test(v) },
+  { key: 'symbol', label: 'A symbol', test: (v) => /[^A-Za-z0-9]/.test(v) }
+];
 
 @Component({
   selector: 'app-reset-password',
   standalone: true,
-  imports: [RouterModule, MatCardModule, MatButtonModule],
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule
+  ],
   templateUrl: './reset-password.component.html',
   styleUrl: './reset-password.component.scss'
 })
-export class ResetPasswordComponent {}
+export class ResetPasswordComponent implements OnInit {
+  private fb = inject(FormBuilder);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  authService = inject(AuthService);
+  errorHandler = inject(ErrorHandlerService);
+
+  readonly passwordRules = PASSWORD_RULES;
+
+  token = signal<string | null>(null);
+  hidePassword = signal(true);
+  hideConfirm = signal(true);
+
+  resetForm: FormGroup = this.fb.group({
+    password: ['', [Validators.required, this.passwordStrengthValidator]],
+    confirmPassword: ['', [Validators.required]]
+  }, { validators: this.passwordMatchValidator });
+
+  private passwordValue = toSignal(this.resetForm.get('password')!.valueChanges, {
+    initialValue: ''
+  });
+
+  // Number of strength rules the current password satisfies
+  strength = computed(() => {
+    const value = this.passwordValue() ?? '';
+    return PASSWORD_RULES.filter((rule) => rule.test(value)).length;
+  });
+
+  strengthLabel = computed(() => {
+    const score = this.strength();
+    if (score <= 2) return 'Weak';
+    if (score <= 4) return 'Fair';
+    return 'Strong';
+  });
+
+  ngOnInit(): void {
+    this.authService.error.set(null);
+    this.token.set(this.route.snapshot.queryParamMap.get('token'));
+  }
+
+  passwordStrengthValidator(control: AbstractControl): ValidationErrors | null {
+    const value: string = control.value ?? '';
+    if (!value) return null;
+
+    const missing = PASSWORD_RULES.filter((rule) => !rule.test(value)).map((rule) => rule.key);
+    return missing.length ? { weakPassword: { missing } } : null;
+  }
+
+  passwordMatchValidator(group: AbstractControl): ValidationErrors | null {
+    const password = group.get('password')?.value;
+    const confirm = group.get('confirmPassword')?.value;
+    return password === confirm ? null : { passwordMismatch: true };
+  }
+
+  isRuleMet(rule: PasswordRule): boolean {
+    return rule.test(this.passwordValue() ?? '');
+  }
+
+  onSubmit(): void {
+    const token = this.token();
+    if (!token) return;
+
+    if (this.resetForm.invalid) {
+      this.resetForm.markAllAsTouched();
+      return;
+    }
+
+    this.authService.resetPassword({ token, newPassword: this.resetForm.value.password }).subscribe({
+      next: () => this.router.navigate(['/'])
+    });
+  }
+
+  // Get field-specific errors from the error handler
+  getFieldError(fieldName: string): string | null {
+    const notifications = this.errorHandler.notifications();
+    const latestError = notifications[notifications.length - 1];
+
+    if (latestError?.fieldErrors && latestError.fieldErrors[fieldName]) {
+      return latestError.fieldErrors[fieldName];
+    }
+
+    return null;
+  }
+}
@@ -1,11 +1,349 @@
-import { Component } from '@angular/core';
-import { MatCardModule } from '@angular/material/card';
+import { Component, DestroyRef, inject, signal, OnDestroy, OnInit } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { of } from 'rxjs';
+import { catchError, distinctUntilChanged, startWith, switchMap } from 'rxjs/operators';
+import { CommonModule } from '@angular/common';
+import { RouterModule, Router, ActivatedRoute } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  FormGroup,
+  FormArray,
+  FormControl,
+  Validators,
+  AbstractControl,
+  ValidationErrors,
+} from '@angular/forms';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { MarkdownEditorComponent } from '../../components/markdown-editor/markdown-editor.component';
+import { PostService } from '../../services/post.service';
+import { SubredditService } from '../../services/subreddit.service';
+import { ErrorHandlerService } from '../../services/error-handler.service';
+import { DraftService } from '../../services/draft.service';
+import { CreatePostDto, PostType, Rule } from '../../models/post.model';
+import { draftKeys } from '../../models/draft.model';
+import { POLL_DURATION_DAYS, POLL_MAX_OPTIONS, POLL_MIN_OPTIONS } from '../../models/poll.model';
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+interface PostTypeTab {
+  type: PostType;
+  label: string;
+  icon: string;
+}
 
 @Component({
   selector: 'app-create-post',
   standalone: true,
-  imports: [MatCardModule],
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    SharedMaterialModule,
+    MarkdownEditorComponent,
+  ],
   templateUrl: './create-post.component.html',
-  styleUrl: './create-post.component.scss'
+  styleUrl: './create-post.component.scss',
 })
-export class CreatePostComponent {}
+export class CreatePostComponent implements OnInit, OnDestroy {
+  private fb = inject(FormBuilder);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private destroyRef = inject(DestroyRef);
+  private snackBar = inject(MatSnackBar);
+  private draftService = inject(DraftService);
+  postService = inject(PostService);
+  subredditService = inject(SubredditService);
+  errorHandler = inject(ErrorHandlerService);
+
+  readonly postTypes: PostTypeTab[] = [
+    { type: 'TEXT', label: 'Post', icon: 'article' },
+    { type: 'LINK', label: 'Link', icon: 'link' },
+    { type: 'IMAGE', label: 'Image', icon: 'image' },
+    { type: 'VIDEO', label: 'Video', icon: 'videocam' },
+    { type: 'POLL', label: 'Poll', icon: 'poll' },
+  ];
+
+  readonly pollDurations = POLL_DURATION_DAYS;
+  readonly maxPollOptions = POLL_MAX_OPTIONS;
+  readonly minPollOptions = POLL_MIN_OPTIONS;
+
+  selectedType = signal<PostType>('TEXT');
+  selectedTabIndex = signal(0);
+
+  // Rules of the chosen community, ticked off by the user as they read them
+  subredditRules = signal<Rule[]>([]);
+  checkedRuleIds = signal<ReadonlySet<string>>(new Set());
+
+  postForm: FormGroup = this.fb.group({
+    subredditId: [null as number | null, [Validators.required]],
+    title: ['', [Validators.required, Validators.maxLength(300)]],
+    content: ['', [Validators.maxLength(40000)]],
+    url: [''],
+    flairText: ['', [Validators.maxLength(64)]],
+    flairCssClass: ['', [Validators.maxLength(64)]],
+    isSpoiler: [false],
+    isOver18: [false],
+    poll: this.fb.group({
+      options: this.fb.array(
+        Array.from({ length: POLL_MIN_OPTIONS }, () => this.createPollOption()),
+        { validators: this.pollOptionsValidator },
+      ),
+      durationDays: [3],
+      allowMultiple: [false],
+    }),
+  });
+
+  get pollOptions(): FormArray<FormControl<string>> {
+    return this.postForm.get('poll.options') as FormArray<FormControl<string>>;
+  }
+
+  ngOnInit(): void {
+    this.postService.clearError();
+    const preselected = this.route.snapshot.queryParamMap.get('subreddit');
+
+    this.subredditService.getUserSubscriptions().subscribe({
+      next: (subscriptions) => {
+        if (!preselected) return;
+        const match = subscriptions.find(
+          (s) => s.name.toLowerCase() === preselected.toLowerCase(),
+        );
+        if (match) {
+          this.postForm.patchValue({ subredditId: match.id });
+        }
+      },
+    });
+
+    this.applyTypeValidators('TEXT');
+    this.watchSubredditRules();
+
+    this.draftService.ready.then(() => {
+      this.restoreDraft();
+      this.postForm.valueChanges
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe(() => this.saveDraft());
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.draftService.release(draftKeys.post());
+  }
+
+  onTabChange(index: number): void {
+    const tab = this.postTypes[index];
+    if (!tab) return;
+
+    this.selectedTabIndex.set(index);
+    this.selectedType.set(tab.type);
+    this.applyTypeValidators(tab.type);
+    this.saveDraft();
+  }
+
+  /**
+   * LINK, IMAGE and VIDEO posts point at a URL; TEXT and POLL posts carry an optional body.
+   */
+  requiresUrl(type: PostType = this.selectedType()): boolean {
+    return type === 'LINK' || type === 'IMAGE' || type === 'VIDEO';
+  }
+
+  getUrlLabel(): string {
+    switch (this.selectedType()) {
+      case 'IMAGE':
+        return 'Image URL';
+      case 'VIDEO':
+        return 'Video URL';
+      default:
+        return 'URL';
+    }
+  }
+
+  onSubmit(): void {
+    if (this.postForm.invalid) {
+      this.postForm.markAllAsTouched();
+      return;
+    }
+
+    const value = this.postForm.value;
+    const type = this.selectedType();
+
+    const poll = value.poll;
+    const payload: CreatePostDto = {
+      title: value.title.trim(),
+      postType: type,
+      content: this.requiresUrl(type) ? null : value.content?.trim() || null,
+      url: this.requiresUrl(type) ? value.url.trim() : null,
+      flairText: value.flairText?.trim() || null,
+      flairCssClass: value.flairCssClass?.trim() || null,
+      isSpoiler: !!value.isSpoiler,
+      isOver18: !!value.isOver18,
+      subredditId: value.subredditId,
+      poll:
+        type === 'POLL'
+          ? {
+              options: (poll.options as string[]).map((o) => o.trim()),
+              durationDays: poll.durationDays,
+              allowMultiple: !!poll.allowMultiple,
+            }
+          : null,
+    };
+
+    this.postService.createPost(payload).subscribe({
+      next: (post) => {
+        this.draftService.discard(draftKeys.post());
+        this.router.navigate(['/posts', post.id]);
+      },
+    });
+  }
+
+  toggleRule(ruleId: string): void {
+    this.checkedRuleIds.update((ids) => {
+      const next = new Set(ids);
+      if (!next.delete(ruleId)) {
+        next.add(ruleId);
+      }
+      return next;
+    });
+  }
+
+  private watchSubredditRules(): void {
+    const subredditId = this.postForm.controls['subredditId'];
+    subredditId.valueChanges
+      .pipe(
+        startWith(subredditId.value),
+        distinctUntilChanged(),
+        // Rules are a reminder; posting still works if they fail to load
+        switchMap((id: number | null) =>
+          id === null ? of([]) : this.subredditService.getRules(id).pipe(catchError(() => of([]))),
+        ),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe((rules) => {
+        this.subredditRules.set([...rules].sort((a, b) => a.priority - b.priority));
+        this.checkedRuleIds.set(new Set());
+      });
+  }
+
+  addPollOption(): void {
+    if (this.pollOptions.length >= POLL_MAX_OPTIONS) return;
+    this.pollOptions.push(this.createPollOption());
+  }
+
+  removePollOption(index: number): void {
+    if (this.pollOptions.length <= POLL_MIN_OPTIONS) return;
+    this.pollOptions.removeAt(index);
+  }
+
+  pollOptionsValidator(control: AbstractControl): ValidationErrors | null {
+    const options = (control.value as string[]).map((o) => o.trim().toLowerCase());
+    if (new Set(options).size !== options.length) {
+      return { duplicateOptions: true };
+    }
+    return null;
+  }
+
+  onCancel(): void {
+    this.draftService.discard(draftKeys.post());
+    this.router.navigate(['/']);
+  }
+
+  // Get field-specific errors from the error handler
+  getFieldError(fieldName: string): string | null {
+    const notifications = this.errorHandler.notifications();
+    const latestError = notifications[notifications.length - 1];
+
+    if (latestError?.fieldErrors && latestError.fieldErrors[fieldName]) {
+      return latestError.fieldErrors[fieldName];
+    }
+
+    return null;
+  }
+
+  private saveDraft(): void {
+    const value = this.postForm.getRawValue();
+    const subreddit = this.subredditService
+      .userSubscriptions()
+      .find((s) => s.id === value.subredditId);
+
+    this.draftService.save({
+      key: draftKeys.post(),
+      kind: 'post',
+      title: value.title,
+      content: value.content ?? '',
+      context: subreddit ? `New post in r/${subreddit.name}` : 'New post',
+      url: '/create-post',
+      form: { ...value, postType: this.selectedType() },
+    });
+  }
+
+  private restoreDraft(): void {
+    const form = this.draftService.get(draftKeys.post())?.form;
+    if (!form) return;
+
+    const { postType, ...value } = form;
+    const tabIndex = this.postTypes.findIndex((t) => t.type === postType);
+    if (tabIndex !== -1) {
+      this.selectedTabIndex.set(tabIndex);
+      this.selectedType.set(this.postTypes[tabIndex].type);
+      this.applyTypeValidators(this.postTypes[tabIndex].type);
+    }
+
+    // patchValue only fills existing controls, so grow the poll builder first
+    const optionCount = Math.min(value.poll?.options.length ?? 0, POLL_MAX_OPTIONS);
+    while (this.pollOptions.length < optionCount) {
+      this.pollOptions.push(this.createPollOption());
+    }
+    this.postForm.patchValue(value);
+
+    this.snackBar
+      .open('Restored your unsent post', 'Discard', { duration: 6000 })
+      .onAction()
+      .subscribe(() => this.discardDraft());
+  }
+
+  private discardDraft(): void {
+    while (this.pollOptions.length > POLL_MIN_OPTIONS) {
+      this.pollOptions.removeAt(this.pollOptions.length - 1, { emitEvent: false });
+    }
+    this.postForm.reset(
+      {
+        subredditId: null,
+        title: '',
+        content: '',
+        url: '',
+        flairText: '',
+        flairCssClass: '',
+        isSpoiler: false,
+        isOver18: false,
+        poll: { durationDays: 3, allowMultiple: false },
+      },
+      { emitEvent: false },
+    );
+    this.onTabChange(0);
+    this.draftService.discard(draftKeys.post());
+  }
+
+  private createPollOption(): FormControl<string> {
+    return this.fb.nonNullable.control('', [Validators.required, Validators.maxLength(120)]);
+  }
+
+  private applyTypeValidators(type: PostType): void {
+    // Disabled controls are skipped by validation, so the poll builder only counts for POLL posts
+    const pollGroup = this.postForm.get('poll');
+    if (type === 'POLL') {
+      pollGroup?.enable();
+    } else {
+      pollGroup?.disable();
+    }
+
+    const urlControl = this.postForm.get('url');
+    if (!urlControl) return;
+
+    if (this.requiresUrl(type)) {
+      urlControl.setValidators([Validators.required, Validators.pattern(URL_PATTERN)]);
+    } else {
+      urlControl.clearValidators();
+    }
+    urlControl.updateValueAndValidity();
+  }
+}
@@ -0,0 +1,191 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterModule } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { MatStepperModule } from '@angular/material/stepper';
+import { MatRadioModule } from '@angular/material/radio';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  FormArray,
+  FormControl,
+  FormGroup,
+  Validators,
+  AbstractControl,
+  AsyncValidatorFn,
+  ValidationErrors,
+} from '@angular/forms';
+import { Observable, of, timer } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { SubredditHeaderPreviewComponent } from '../../components/subreddit-header-preview/subreddit-header-preview.component';
+import { SubredditService } from '../../services/subreddit.service';
+import {
+  CreateSubredditDto,
+  MAX_SUBREDDIT_RULES,
+  SUBREDDIT_VISIBILITY_OPTIONS,
+  SubredditVisibility,
+  toVisibilityFlags,
+  validateSubredditName,
+  validateSubredditTitle,
+} from '../../models/subreddit.model';
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+type RuleForm = FormGroup<{
+  title: FormControl<string>;
+  description: FormControl<string>;
+}>;
+
+@Component({
+  selector: 'app-create-subreddit',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    SharedMaterialModule,
+    MatStepperModule,
+    MatRadioModule,
+    SubredditHeaderPreviewComponent,
+  ],
+  templateUrl: './create-subreddit.component.html',
+  styleUrl: './create-subreddit.component.scss',
+})
+export class CreateSubredditComponent {
+  private fb = inject(FormBuilder);
+  private router = inject(Router);
+  private snackBar = inject(MatSnackBar);
+  subredditService = inject(SubredditService);
+
+  readonly visibilityOptions = SUBREDDIT_VISIBILITY_OPTIONS;
+  readonly maxRules = MAX_SUBREDDIT_RULES;
+
+  nameForm = this.fb.nonNullable.group({
+    name: ['', [this.nameValidator], [this.nameAvailableValidator()]],
+  });
+
+  detailsForm = this.fb.nonNullable.group({
+    title: ['', [this.titleValidator]],
+    description: ['', [Validators.maxLength(500)]],
+  });
+
+  visibilityForm = this.fb.nonNullable.group({
+    visibility: ['public' as SubredditVisibility],
+    isOver18: [false],
+  });
+
+  appearanceForm = this.fb.nonNullable.group({
+    iconImageUrl: ['', [Validators.pattern(URL_PATTERN)]],
+    headerImageUrl: ['', [Validators.pattern(URL_PATTERN)]],
+  });
+
+  rulesForm = this.fb.nonNullable.group({
+    rules: this.fb.array<RuleForm>([]),
+  });
+
+  submitting = signal<boolean>(false);
+
+  get rules(): FormArray<RuleForm> {
+    return this.rulesForm.controls.rules;
+  }
+
+  constructor() {
+    this.subredditService.clearError();
+  }
+
+  /**
+   * Suggest the name as the title when moving on from the name step
+   */
+  onNameConfirmed(): void {
+    const title = this.detailsForm.controls.title;
+    if (!title.value) {
+      title.setValue(this.nameForm.controls.name.value);
+    }
+  }
+
+  addRule(): void {
+    if (this.rules.length >= MAX_SUBREDDIT_RULES) return;
+    this.rules.push(
+      this.fb.nonNullable.group({
+        title: ['', [Validators.required, Validators.maxLength(100)]],
+        description: ['', [Validators.maxLength(500)]],
+      }),
+    );
+  }
+
+  removeRule(index: number): void {
+    this.rules.removeAt(index);
+  }
+
+  onSubmit(): void {
+    const forms = [
+      this.nameForm,
+      this.detailsForm,
+      this.visibilityForm,
+      this.appearanceForm,
+      this.rulesForm,
+    ];
+    if (forms.some((form) => form.invalid || form.pending) || this.submitting()) {
+      forms.forEach((form) => form.markAllAsTouched());
+      return;
+    }
+
+    const { name } = this.nameForm.getRawValue();
+    const { title, description } = this.detailsForm.getRawValue();
+    const { visibility, isOver18 } = this.visibilityForm.getRawValue();
+    const { iconImageUrl, headerImageUrl } = this.appearanceForm.getRawValue();
+
+    const payload: CreateSubredditDto = {
+      name,
+      title: title.trim(),
+      description: description.trim() || undefined,
+      iconImageUrl: iconImageUrl.trim() || undefined,
+      headerImageUrl: headerImageUrl.trim() || undefined,
+      ...toVisibilityFlags(visibility),
+      isOver18,
+      rules: this.rules.getRawValue().map((rule, index) => ({
+        title: rule.title.trim(),
+        description: rule.description.trim(),
+        priority: index + 1,
+      })),
+    };
+
+    this.submitting.set(true);
+    this.subredditService.createSubreddit(payload).subscribe({
+      next: (subreddit) => {
+        this.submitting.set(false);
+        this.snackBar.open(`r/${subreddit.name} is live`, 'Close', { duration: 3000 });
+        this.router.navigate(['/r', subreddit.name]);
+      },
+      error: () => this.submitting.set(false),
+    });
+  }
+
+  onCancel(): void {
+    this.router.navigate(['/']);
+  }
+
+  private nameValidator(control: AbstractControl): ValidationErrors | null {
+    const message = validateSubredditName(control.value);
+    return message ? { invalidName: message } : null;
+  }
+
+  private titleValidator(control: AbstractControl): ValidationErrors | null {
+    const message = validateSubredditTitle(control.value);
+    return message ? { invalidTitle: message } : null;
+  }
+
+  /**
+   * Checks the name once typing pauses. If the check itself fails the name
+   * passes, and the server has the final say on create.
+   */
+  private nameAvailableValidator(): AsyncValidatorFn {
+    return (control: AbstractControl): Observable<ValidationErrors | null> =>
+      timer(400).pipe(
+        switchMap(() => this.subredditService.checkNameAvailability(control.value)),
+        map((available) => (available ? null : { nameTaken: true })),
+        catchError(() => of(null)),
+      );
+  }
+}
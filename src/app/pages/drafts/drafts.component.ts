@@ -0,0 +1,32 @@
+import { Component, inject } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { DraftService } from '../../services/draft.service';
+import { Draft, getDraftIcon } from '../../models/draft.model';
+import { TimeAgoPipe, TruncatePipe } from '../../pipes/format.pipes';
+
+@Component({
+  selector: 'app-drafts',
+  standalone: true,
+  imports: [RouterModule, MatButtonModule, MatCardModule, MatIconModule, TimeAgoPipe, TruncatePipe],
+  templateUrl: './drafts.component.html',
+  styleUrl: './drafts.component.scss',
+})
+export class DraftsComponent {
+  draftService = inject(DraftService);
+
+  drafts = this.draftService.drafts;
+  readonly getDraftIcon = getDraftIcon;
+
+  discard(draft: Draft): void {
+    this.draftService.discard(draft.key);
+  }
+
+  discardAll(): void {
+    if (confirm('Discard all drafts? This cannot be undone.')) {
+      this.draftService.discardAll();
+    }
+  }
+}
@@ -1,17 +1,45 @@
-import { Component, inject, signal, OnInit, OnDestroy } from '@angular/core';
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  Injector,
+  OnDestroy,
+  OnInit,
+  afterNextRender,
+  computed,
+  inject,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
-import { RouterModule, Router } from '@angular/router';
+import { RouterModule, Router, NavigationStart } from '@angular/router';
 import { SharedMaterialModule } from '../../shared/shared-material.module';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { ReactiveFormsModule, FormControl } from '@angular/forms';
-import { Subject } from 'rxjs';
-import { takeUntil, debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { Observable, Subject, Subscription, forkJoin, of } from 'rxjs';
+import { catchError, map, takeUntil, debounceTime, distinctUntilChanged, filter, skip } from 'rxjs/operators';
 import { PostService } from '../../services/post.service';
 import { FeedService } from '../../services/feed.service';
 import { AuthService } from '../../services/auth.service';
 import { WebSocketService } from '../../services/websocket.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { SubredditService } from '../../services/subreddit.service';
+import { SavedService } from '../../services/saved.service';
+import { HiddenService } from '../../services/hidden.service';
 import { FormatNumberPipe, TimeAgoPipe } from '../../pipes/format.pipes';
-import { FeedPost, SuggestedUser } from '../../models/feed.model';
+import { PollWidgetComponent } from '../../components/poll-widget/poll-widget.component';
+import { NewPostsPillComponent } from '../../components/new-posts-pill/new-posts-pill.component';
+import { FeedPost, SuggestedUser, toFeedPost } from '../../models/feed.model';
+import { PostResponse, VoteType } from '../../models/post.model';
+
+const FEED_PAGE_SIZE = 20;
+const MAX_BUFFERED_POSTS = 50;
+
+interface PendingPost {
+  postId: number;
+  subredditId: number;
+}
 
 @Component({
   selector: 'app-home',
@@ -21,31 +49,71 @@ import { FeedPost, SuggestedUser } from '../../models/feed.model';
     RouterModule,
     ReactiveFormsModule,
     SharedMaterialModule,
+    PollWidgetComponent,
+    NewPostsPillComponent,
     FormatNumberPipe,
     TimeAgoPipe,
   ],
   templateUrl: './home.component.html',
   styleUrl: './home.component.scss',
 })
-export class HomeComponent implements OnInit, OnDestroy {
+export class HomeComponent implements OnInit, AfterViewInit, OnDestroy {
   private router = inject(Router);
+  private injector = inject(Injector);
   private snackBar = inject(MatSnackBar);
   postService = inject(PostService);
   feedService = inject(FeedService);
   authService = inject(AuthService);
+  preferencesService = inject(PreferencesService);
+  private subredditService = inject(SubredditService);
   private wsService = inject(WebSocketService);
+  private savedService = inject(SavedService);
+  private hiddenService = inject(HiddenService);
 
   searchControl = new FormControl('');
   selectedSort = signal<'algorithm' | 'hot' | 'new' | 'top'>('algorithm');
-  currentPage = signal<number>(1);
   showAlgorithmInfo = signal<boolean>(false);
 
+  // New posts announced over the socket, waiting for the user to reveal them
+  pendingPosts = signal<PendingPost[]>([]);
+  revealingPosts = signal<boolean>(false);
+  private watchedSubredditIds: number[] = [];
+
+  private feedSentinel = viewChild<ElementRef<HTMLElement>>('feedSentinel');
+  private scrollObserver?: IntersectionObserver;
+  private feedRequest?: Subscription;
+  private pageRequest?: Subscription;
+
+  // NSFW posts stay hidden client-side too, in case the feed was fetched before preferences loaded
+  visiblePosts = computed(() => {
+    const posts = this.feedService.posts();
+    return this.preferencesService.nsfwEnabled() ? posts : posts.filter((p) => !p.isOver18);
+  });
+
   private destroy$ = new Subject<void>();
+  private nsfwEnabled$ = toObservable(this.preferencesService.nsfwEnabled);
 
   ngOnInit(): void {
-    this.loadFeed();
+    this.restoreOrLoadFeed();
     this.setupWebSocketSubscriptions();
 
+    // Remember the scroll position when leaving for a post page
+    this.router.events
+      .pipe(
+        filter((event): event is NavigationStart => event instanceof NavigationStart),
+        takeUntil(this.destroy$),
+      )
+      .subscribe((event) => {
+        if (event.url.startsWith('/posts/')) {
+          this.feedService.saveView({ sortBy: this.selectedSort(), scrollY: window.scrollY });
+        }
+      });
+
+    // Refetch when the NSFW preference changes so the server applies it
+    this.nsfwEnabled$
+      .pipe(skip(1), distinctUntilChanged(), takeUntil(this.destroy$))
+      .subscribe(() => this.loadFeed());
+
     // Wire up search with debounce
     this.searchControl.valueChanges
       .pipe(debounceTime(400), distinctUntilChanged(), takeUntil(this.destroy$))
@@ -58,49 +126,75 @@ export class HomeComponent implements OnInit, OnDestroy {
       });
   }
 
+  ngAfterViewInit(): void {
+    this.setupInfiniteScroll();
+  }
+
+  private restoreOrLoadFeed(): void {
+    const savedView = this.feedService.takeSavedView();
+    const isBackNavigation = this.router.currentNavigation()?.trigger === 'popstate';
+
+    // Coming back from a post: keep the loaded pages and jump to where we were
+    if (savedView && isBackNavigation && this.feedService.posts().length > 0) {
+      this.selectedSort.set(savedView.sortBy);
+      afterNextRender(() => window.scrollTo({ top: savedView.scrollY }), {
+        injector: this.injector,
+      });
+      return;
+    }
+
+    this.loadFeed();
+  }
+
+  private setupInfiniteScroll(): void {
+    const sentinel = this.feedSentinel()?.nativeElement;
+    if (!sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    // Start fetching a little before the sentinel scrolls into view
+    this.scrollObserver = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          this.loadMore();
+        }
+      },
+      { rootMargin: '600px 0px' },
+    );
+    this.scrollObserver.observe(sentinel);
+  }
+
   private setupWebSocketSubscriptions(): void {
     // Subscribe to post updates (score, comment count, etc.)
     this.wsService.postUpdates$.pipe(takeUntil(this.destroy$)).subscribe({
       next: (update) => {
-        const currentPosts = this.feedService.posts();
-        const index = currentPosts.findIndex((p) => p.id === update.id);
-        if (index !== -1) {
-          // Update the post with new values
-          currentPosts[index] = {
-            ...currentPosts[index],
-            score: update.score,
-            commentCount: update.commentCount,
-            upvoteCount: update.upvoteCount,
-            downvoteCount: update.downvoteCount,
-            viewCount: update.viewCount,
-          };
-          this.feedService.posts.set([...currentPosts]);
-        }
+        this.feedService.updatePost(update.id, (post) => ({
+          ...post,
+          score: update.score,
+          commentCount: update.commentCount,
+          upvoteCount: update.upvoteCount,
+          downvoteCount: update.downvoteCount,
+          viewCount: update.viewCount,
+        }));
       },
     });
 
-    // Subscribe to vote updates for real-time vote feedback
-    this.wsService.voteUpdates$.pipe(takeUntil(this.destroy$)).subscribe({
-      next: (vote) => {
-        if (vote.targetType === 'POST') {
-          const currentPosts = this.feedService.posts();
-          const index = currentPosts.findIndex((p) => p.id === vote.targetId);
-          if (index !== -1) {
-            currentPosts[index] = {
-              ...currentPosts[index],
-              score: vote.newScore,
-              userInteraction: {
-                ...currentPosts[index].userInteraction,
-                hasUpvoted: vote.userVote === 'UPVOTE',
-                hasDownvoted: vote.userVote === 'DOWNVOTE',
-              },
-            };
-            this.feedService.posts.set([...currentPosts]);
-          }
-        }
+    // Buffer new posts from subscribed communities instead of reloading the feed
+    this.wsService.subredditUpdates$.pipe(takeUntil(this.destroy$)).subscribe({
+      next: (update) => {
+        if (update.updateType !== 'NEW_POST' || update.postId === undefined) return;
+        if (!this.watchedSubredditIds.includes(update.subredditId)) return;
+        this.bufferNewPost({ postId: update.postId, subredditId: update.subredditId });
       },
     });
 
+    if (this.authService.isAuthenticated()) {
+      this.subredditService.getUserSubscriptions().pipe(takeUntil(this.destroy$)).subscribe({
+        next: (subreddits) => {
+          this.watchedSubredditIds = subreddits.map((s) => s.id);
+          this.watchedSubredditIds.forEach((id) => this.wsService.subscribeToSubreddit(id));
+        },
+      });
+    }
+
     // Subscribe to karma updates for current user
     this.wsService.karmaUpdates$.pipe(takeUntil(this.destroy$)).subscribe({
       next: (karma) => {
@@ -114,34 +208,66 @@ export class HomeComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.watchedSubredditIds.forEach((id) => this.wsService.unsubscribeFromSubreddit(id));
+    this.scrollObserver?.disconnect();
+    this.feedRequest?.unsubscribe();
+    this.pageRequest?.unsubscribe();
     this.destroy$.next();
     this.destroy$.complete();
   }
 
+  private bufferNewPost(pending: PendingPost): void {
+    if (this.feedService.posts().some((p) => p.id === pending.postId)) return;
+    if (this.pendingPosts().some((p) => p.postId === pending.postId)) return;
+
+    this.pendingPosts.update((posts) => [pending, ...posts].slice(0, MAX_BUFFERED_POSTS));
+  }
+
+  showNewPosts(): void {
+    const pending = this.pendingPosts();
+    if (pending.length === 0 || this.revealingPosts()) return;
+
+    // One "new" page per community; a community that fails to load is skipped
+    const idsBySubreddit = new Map<number, number[]>();
+    pending.forEach(({ postId, subredditId }) => {
+      idsBySubreddit.set(subredditId, [...(idsBySubreddit.get(subredditId) ?? []), postId]);
+    });
+    const requests: Observable<PostResponse[]>[] = [...idsBySubreddit].map(
+      ([subredditId, postIds]) =>
+        this.postService.getNewPostsByIds(subredditId, postIds).pipe(catchError(() => of([]))),
+    );
+
+    this.revealingPosts.set(true);
+    forkJoin(requests)
+      .pipe(map((pages) => pages.flat()))
+      .subscribe({
+        next: (posts) => {
+          // Newest first, the way they would rank under "new"
+          const sorted = [...posts].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+          );
+          this.feedService.prependPosts(sorted.map(toFeedPost));
+          this.pendingPosts.set([]);
+          this.revealingPosts.set(false);
+          window.scrollTo({ top: 0, behavior: 'smooth' });
+        },
+        error: () => this.revealingPosts.set(false),
+      });
+  }
+
   loadFeed(): void {
-    const sort = this.selectedSort();
-    const limit = 20;
-
-    switch (sort) {
-      case 'hot':
-        this.feedService.getHotPosts(limit).subscribe();
-        break;
-      case 'new':
-        this.feedService.getNewPosts(limit).subscribe();
-        break;
-      case 'top':
-        this.feedService.getTopPosts(limit).subscribe();
-        break;
-      case 'algorithm':
-      default:
-        this.feedService.getFeed({ limit, sortBy: 'algorithm' }).subscribe();
-        break;
-    }
+    // Anything still loading belongs to the previous sort or query
+    this.feedRequest?.unsubscribe();
+    this.pageRequest?.unsubscribe();
+    this.pendingPosts.set([]);
+    // Every sort goes through the paged feed endpoint so later pages line up
+    this.feedRequest = this.feedService
+      .getFeed({ limit: FEED_PAGE_SIZE, sortBy: this.selectedSort() })
+      .subscribe();
   }
 
   onSortChange(sort: 'algorithm' | 'hot' | 'new' | 'top'): void {
     this.selectedSort.set(sort);
-    this.currentPage.set(1);
     this.loadFeed();
   }
 
@@ -155,21 +281,51 @@ export class HomeComponent implements OnInit, OnDestroy {
 
     // Convert to API format
     const apiVoteType = voteType === 'upvote' ? 'UPVOTE' : 'DOWNVOTE';
+    const userVote = this.getUserVoteStatus(post);
     // If already voted the same way, remove vote
-    const finalVote = post.userInteraction.hasUpvoted && voteType === 'upvote'
-      ? null
-      : post.userInteraction.hasDownvoted && voteType === 'downvote'
-      ? null
-      : apiVoteType;
+    const finalVote = userVote === apiVoteType ? null : apiVoteType;
+
+    this.postService.votePost({ ...post, userVote }, finalVote);
+  }
+
+  isSaved(post: FeedPost): boolean {
+    return this.savedService.isSaved('post', post.id, post.userInteraction.isSaved);
+  }
+
+  toggleSave(post: FeedPost): void {
+    if (!this.authService.isAuthenticated()) {
+      this.router.navigate(['/auth/login'], {
+        queryParams: { returnUrl: this.router.url },
+      });
+      return;
+    }
 
-    this.postService.votePost(post.id, finalVote).subscribe();
+    const request = this.isSaved(post)
+      ? this.savedService.unsave('post', post.id)
+      : this.savedService.save('post', post.id);
+    request.subscribe({
+      error: (err) => console.error('Error saving post:', err),
+    });
+  }
+
+  hidePost(post: FeedPost): void {
+    if (!this.authService.isAuthenticated()) {
+      this.router.navigate(['/auth/login'], {
+        queryParams: { returnUrl: this.router.url },
+      });
+      return;
+    }
+
+    this.hiddenService.hide(post.id).subscribe({
+      error: (err) => console.error('Error hiding post:', err),
+    });
   }
 
   toggleAlgorithmInfo(): void {
     this.showAlgorithmInfo.update(v => !v);
   }
 
-  getUserVoteStatus(post: FeedPost): string | null {
+  getUserVoteStatus(post: FeedPost): VoteType | null {
     if (post.userInteraction.hasUpvoted) return 'UPVOTE';
     if (post.userInteraction.hasDownvoted) return 'DOWNVOTE';
     return null;
@@ -190,13 +346,19 @@ export class HomeComponent implements OnInit, OnDestroy {
   }
 
   refreshFeed(): void {
-    this.currentPage.set(1);
     this.loadFeed();
   }
 
   loadMore(): void {
-    this.currentPage.update((p) => p + 1);
-    // TODO: Implement pagination with feed API
-    this.loadFeed();
+    const feed = this.feedService;
+    if (!feed.hasMore() || feed.loading() || feed.loadingMore() || feed.posts().length === 0) {
+      return;
+    }
+    // Search results replace the feed; there is nothing to page
+    if (this.searchControl.value?.trim()) return;
+
+    this.pageRequest = feed
+      .getNextPage({ limit: FEED_PAGE_SIZE, sortBy: this.selectedSort() })
+      .subscribe();
   }
 }
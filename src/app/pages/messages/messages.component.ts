@@ -1,11 +1,191 @@
-import { Component } from '@angular/core';
-import { MatCardModule } from '@angular/material/card';
+import { Component, DestroyRef, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { FormBuilder, FormGroup, FormsModule, ReactiveFormsModule, Validators } from '@angular/forms';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { MarkdownComponent } from '../../components/markdown/markdown.component';
+import { MarkdownEditorComponent } from '../../components/markdown-editor/markdown-editor.component';
+import { MessageService } from '../../services/message.service';
+import { AuthService } from '../../services/auth.service';
+import { Conversation, DirectMessage } from '../../models/message.model';
+import { TimeAgoPipe, TruncatePipe } from '../../pipes/format.pipes';
 
 @Component({
   selector: 'app-messages',
   standalone: true,
-  imports: [MatCardModule],
+  imports: [
+    CommonModule,
+    RouterModule,
+    FormsModule,
+    ReactiveFormsModule,
+    SharedMaterialModule,
+    MarkdownComponent,
+    MarkdownEditorComponent,
+    TimeAgoPipe,
+    TruncatePipe,
+  ],
   templateUrl: './messages.component.html',
-  styleUrl: './messages.component.scss'
+  styleUrl: './messages.component.scss',
 })
-export class MessagesComponent {}
+export class MessagesComponent implements OnInit, OnDestroy {
+  private fb = inject(FormBuilder);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private destroyRef = inject(DestroyRef);
+  messageService = inject(MessageService);
+  authService = inject(AuthService);
+
+  composing = signal(false);
+  replyContent = signal('');
+  isSending = signal(false);
+
+  activeConversation = computed(() => {
+    const id = this.messageService.activeConversationId();
+    if (id === null) return null;
+
+    const conversation = this.messageService.conversations().find((c) => c.id === id);
+    if (conversation) return conversation;
+
+    // Deep-linked thread that is not on the loaded conversation page yet
+    const [first] = this.messageService.messages();
+    if (!first) return null;
+    const currentUserId = this.authService.currentUser()?.id;
+    return {
+      id,
+      participant: first.sender.id === currentUserId ? first.recipient : first.sender,
+      subject: first.subject,
+      lastMessage: null,
+      unreadCount: 0,
+      updatedAt: first.createdAt,
+    } as Conversation;
+  });
+
+  composeForm: FormGroup = this.fb.group({
+    recipientUsername: ['', [Validators.required, Validators.minLength(3)]],
+    subject: ['', [Validators.maxLength(100)]],
+    content: ['', [Validators.required, Validators.maxLength(10000)]],
+  });
+
+  ngOnInit(): void {
+    this.messageService.clearError();
+    this.messageService.getConversations().subscribe({
+      error: (err) => {
+        console.error('Error loading conversations:', err);
+      },
+    });
+
+    // ?to=username opens the composer, ?conversation=id opens a thread
+    this.route.queryParamMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
+      const conversationId = Number(params.get('conversation'));
+
+      if (params.has('to') || params.has('compose')) {
+        this.startCompose(params.get('to') ?? '');
+      } else if (conversationId) {
+        this.openConversation(conversationId);
+      } else {
+        this.composing.set(false);
+        this.messageService.closeConversation();
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.messageService.closeConversation();
+  }
+
+  selectConversation(conversation: Conversation): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { conversation: conversation.id },
+    });
+  }
+
+  newMessage(): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: { compose: true } });
+  }
+
+  cancelCompose(): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: {} });
+  }
+
+  sendNewMessage(): void {
+    if (this.composeForm.invalid) {
+      this.composeForm.markAllAsTouched();
+      return;
+    }
+
+    const { recipientUsername, subject, content } = this.composeForm.value;
+    this.isSending.set(true);
+
+    this.messageService
+      .sendMessage({
+        recipientUsername: recipientUsername.trim().replace(/^u\//, ''),
+        subject: subject?.trim() || null,
+        content: content.trim(),
+      })
+      .subscribe({
+        next: (message) => {
+          this.isSending.set(false);
+          this.composeForm.reset();
+          this.router.navigate([], {
+            relativeTo: this.route,
+            queryParams: { conversation: message.conversationId },
+          });
+        },
+        error: (err) => {
+          console.error('Error sending message:', err);
+          this.isSending.set(false);
+        },
+      });
+  }
+
+  sendReply(): void {
+    const conversationId = this.messageService.activeConversationId();
+    const content = this.replyContent().trim();
+    if (!conversationId || !content) return;
+
+    this.isSending.set(true);
+    this.messageService.reply(conversationId, content).subscribe({
+      next: () => {
+        this.replyContent.set('');
+        this.isSending.set(false);
+      },
+      error: (err) => {
+        console.error('Error sending reply:', err);
+        this.isSending.set(false);
+      },
+    });
+  }
+
+  isOwnMessage(message: DirectMessage): boolean {
+    return message.sender.id === this.authService.currentUser()?.id;
+  }
+
+  private startCompose(recipient: string): void {
+    this.messageService.closeConversation();
+    this.composing.set(true);
+    this.composeForm.reset({ recipientUsername: recipient, subject: '', content: '' });
+  }
+
+  private openConversation(conversationId: number): void {
+    this.composing.set(false);
+    this.replyContent.set('');
+
+    this.messageService.getConversationMessages(conversationId).subscribe({
+      next: () => {
+        const conversation = this.activeConversation();
+        if (conversation && conversation.unreadCount > 0) {
+          this.messageService.markConversationRead(conversationId).subscribe({
+            error: (err) => {
+              console.error('Error marking conversation read:', err);
+            },
+          });
+        }
+      },
+      error: (err) => {
+        console.error('Error loading conversation:', err);
+      },
+    });
+  }
+}
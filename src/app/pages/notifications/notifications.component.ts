@@ -1,4 +1,4 @@
-import { Component, signal, OnInit } from '@angular/core';
+import { Component, computed, inject, signal, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
@@ -7,18 +7,16 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatBadgeModule } from '@angular/material/badge';
 import { MatTabsModule } from '@angular/material/tabs';
 import { MatMenuModule } from '@angular/material/menu';
-
-interface Notification {
-  id: number;
-  type: 'comment' | 'reply' | 'upvote' | 'award' | 'follow' | 'message';
-  title: string;
-  message: string;
-  link?: string;
-  isRead: boolean;
-  createdAt: string;
-  avatar?: string;
-  username?: string;
-}
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { NotificationService } from '../../services/notification.service';
+import {
+  NotificationCategory,
+  NotificationFilter,
+  UserNotification,
+  getNotificationCategory,
+  getNotificationIcon,
+} from '../../models/notification.model';
+import { TimeAgoPipe } from '../../pipes/format.pipes';
 
 @Component({
   selector: 'app-notifications',
@@ -32,143 +30,88 @@ interface Notification {
     MatBadgeModule,
     MatTabsModule,
     MatMenuModule,
+    MatProgressSpinnerModule,
+    TimeAgoPipe,
   ],
   templateUrl: './notifications.component.html',
   styleUrl: './notifications.component.scss',
 })
 export class NotificationsComponent implements OnInit {
-  notifications = signal<Notification[]>([]);
-  unreadCount = signal(0);
-  activeFilter = signal<'all' | 'unread'>('all');
+  notificationService = inject(NotificationService);
+
+  notifications = this.notificationService.notifications;
+  unreadCount = this.notificationService.unreadCount;
+  activeFilter = signal<NotificationFilter>('all');
+
+  filteredNotifications = computed(() => {
+    const all = this.notifications();
+    if (this.activeFilter() === 'unread') {
+      return all.filter((n) => !n.isRead);
+    }
+    return all;
+  });
 
   ngOnInit(): void {
+    this.notificationService.clearError();
     this.loadNotifications();
   }
 
   loadNotifications(): void {
-    // Mock notifications - in a real app, this would be an API call
-    const mockNotifications: Notification[] = [
-      {
-        id: 1,
-        type: 'comment',
-        title: 'New comment on your post',
-        message: 'john_doe commented on your post "Angular Best Practices"',
-        link: '/post/123',
-        isRead: false,
-        createdAt: new Date(Date.now() - 1000 * 60 * 5).toISOString(),
-        username: 'john_doe',
-      },
-      {
-        id: 2,
-        type: 'reply',
-        title: 'Reply to your comment',
-        message: 'jane_smith replied to your comment',
-        link: '/post/456',
-        isRead: false,
-        createdAt: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-        username: 'jane_smith',
-      },
-      {
-        id: 3,
-        type: 'upvote',
-        title: 'Your post is trending',
-        message: 'Your post "TypeScript Tips" received 100 upvotes',
-        link: '/post/789',
-        isRead: true,
-        createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-      },
-      {
-        id: 4,
-        type: 'award',
-        title: 'You received an award',
-        message: 'Someone gave your post a Gold award!',
-        link: '/post/789',
-        isRead: true,
-        createdAt: new Date(Date.now() - 1000 * 60 * 60 * 5).toISOString(),
-      },
-      {
-        id: 5,
-        type: 'follow',
-        title: 'New follower',
-        message: 'dev_master started following you',
-        link: '/user/dev_master',
-        isRead: false,
-        createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(),
-        username: 'dev_master',
-      },
-    ];
-
-    this.notifications.set(mockNotifications);
-    this.updateUnreadCount();
+    this.notificationService.getNotifications(0).subscribe({
+      error: (err) => console.error('Error loading notifications:', err),
+    });
+    this.notificationService.getUnreadCount().subscribe({
+      error: (err) => console.error('Error loading unread notifications:', err),
+    });
   }
 
-  get filteredNotifications(): Notification[] {
-    const all = this.notifications();
-    if (this.activeFilter() === 'unread') {
-      return all.filter((n) => !n.isRead);
-    }
-    return all;
+  loadMore(): void {
+    if (this.notificationService.loading() || !this.notificationService.hasMore()) return;
+    this.notificationService
+      .getNotifications(this.notificationService.currentPage() + 1)
+      .subscribe({
+        error: (err) => console.error('Error loading more notifications:', err),
+      });
   }
 
-  markAsRead(notificationId: number): void {
-    const notifications = this.notifications();
-    const updated = notifications.map((n) =>
-      n.id === notificationId ? { ...n, isRead: true } : n,
-    );
-    this.notifications.set(updated);
-    this.updateUnreadCount();
+  markAsRead(notification: UserNotification): void {
+    if (notification.isRead) return;
+    this.notificationService.markAsRead(notification.id).subscribe({
+      error: (err) => console.error('Error marking notification read:', err),
+    });
   }
 
   markAllAsRead(): void {
-    const notifications = this.notifications();
-    const updated = notifications.map((n) => ({ ...n, isRead: true }));
-    this.notifications.set(updated);
-    this.updateUnreadCount();
+    this.notificationService.markAllAsRead().subscribe({
+      error: (err) => console.error('Error marking notifications read:', err),
+    });
   }
 
   deleteNotification(notificationId: number): void {
-    const notifications = this.notifications();
-    const updated = notifications.filter((n) => n.id !== notificationId);
-    this.notifications.set(updated);
-    this.updateUnreadCount();
+    this.notificationService.deleteNotification(notificationId).subscribe({
+      error: (err) => console.error('Error deleting notification:', err),
+    });
   }
 
   clearAll(): void {
-    this.notifications.set([]);
-    this.updateUnreadCount();
+    this.notificationService.clearAll().subscribe({
+      error: (err) => console.error('Error clearing notifications:', err),
+    });
   }
 
-  setFilter(filter: 'all' | 'unread'): void {
+  setFilter(filter: NotificationFilter): void {
     this.activeFilter.set(filter);
   }
 
-  private updateUnreadCount(): void {
-    const count = this.notifications().filter((n) => !n.isRead).length;
-    this.unreadCount.set(count);
+  trackById(_index: number, notification: UserNotification): number {
+    return notification.id;
   }
 
-  getNotificationIcon(type: string): string {
-    const icons: Record<string, string> = {
-      comment: 'comment',
-      reply: 'reply',
-      upvote: 'arrow_upward',
-      award: 'emoji_events',
-      follow: 'person_add',
-      message: 'mail',
-    };
-    return icons[type] || 'notifications';
+  getNotificationIcon(notification: UserNotification): string {
+    return getNotificationIcon(notification.type);
   }
 
-  getTimeAgo(dateString: string): string {
-    const date = new Date(dateString);
-    const now = new Date();
-    const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-
-    if (seconds < 60) return 'just now';
-    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
-    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
-    if (seconds < 2592000) return `${Math.floor(seconds / 86400)}d ago`;
-    if (seconds < 31536000) return `${Math.floor(seconds / 2592000)}mo ago`;
-    return `${Math.floor(seconds / 31536000)}y ago`;
+  getNotificationCategory(notification: UserNotification): NotificationCategory {
+    return getNotificationCategory(notification.type);
   }
 }
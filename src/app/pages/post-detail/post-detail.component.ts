@@ -1,15 +1,23 @@
-import { Component, inject, OnInit, OnDestroy, signal } from '@angular/core';
+import { Component, computed, inject, OnInit, OnDestroy, signal } from '@angular/core';
 import { ActivatedRoute } from '@angular/router';
+import { toSignal } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { SharedMaterialModule } from '../../shared/shared-material.module';
 import { CommentListComponent } from '../../components/comment-list/comment-list.component';
+import { PollWidgetComponent } from '../../components/poll-widget/poll-widget.component';
+import { MarkdownComponent } from '../../components/markdown/markdown.component';
 import { PostService } from '../../services/post.service';
 import { AuthService } from '../../services/auth.service';
 import { WebSocketService } from '../../services/websocket.service';
+import { VoteStoreService } from '../../services/vote-store.service';
+import { SavedService } from '../../services/saved.service';
 import { Post } from '../../models/post.model';
 import { TimeAgoPipe } from '../../pipes/format.pipes';
 import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { map, takeUntil } from 'rxjs/operators';
+
+// Parent comments shown above a permalinked comment unless ?context= says otherwise
+const DEFAULT_COMMENT_CONTEXT = 3;
 
 @Component({
   selector: 'app-post-detail',
@@ -18,6 +26,8 @@ import { takeUntil } from 'rxjs/operators';
     CommonModule,
     SharedMaterialModule,
     CommentListComponent,
+    PollWidgetComponent,
+    MarkdownComponent,
     TimeAgoPipe,
   ],
   templateUrl: './post-detail.component.html',
@@ -28,6 +38,8 @@ export class PostDetailComponent implements OnInit, OnDestroy {
   private postService = inject(PostService);
   private authService = inject(AuthService);
   private wsService = inject(WebSocketService);
+  private voteStore = inject(VoteStoreService);
+  private savedService = inject(SavedService);
   private destroy$ = new Subject<void>();
 
   postId = Number(this.route.snapshot.paramMap.get('id')) || 0;
@@ -35,6 +47,24 @@ export class PostDetailComponent implements OnInit, OnDestroy {
   loading = signal(false);
   error = signal<string | null>(null);
   currentUserId = signal<number | undefined>(undefined);
+  isSaved = computed(() => {
+    const post = this.post();
+    return !!post && this.savedService.isSaved('post', post.id, post.isSaved);
+  });
+
+  // Set on /posts/:id/comments/:commentId permalinks
+  focusCommentId = toSignal(
+    this.route.paramMap.pipe(map((params) => Number(params.get('commentId')) || undefined)),
+  );
+  contextLevels = toSignal(
+    this.route.queryParamMap.pipe(
+      map((params) => {
+        const context = params.has('context') ? Number(params.get('context')) : NaN;
+        return Number.isInteger(context) && context >= 0 ? context : DEFAULT_COMMENT_CONTEXT;
+      }),
+    ),
+    { initialValue: DEFAULT_COMMENT_CONTEXT },
+  );
 
   ngOnInit(): void {
     this.loadPost();
@@ -72,21 +102,14 @@ export class PostDetailComponent implements OnInit, OnDestroy {
       },
     });
 
-    // Listen for vote updates on this post
-    this.wsService.voteUpdates$.pipe(takeUntil(this.destroy$)).subscribe({
-      next: (vote) => {
-        if (vote.targetId === this.postId && vote.targetType === 'POST' && this.post()) {
-          this.post.update((current) => {
-            if (!current) return null;
-            return {
-              ...current,
-              score: vote.newScore,
-              userVote: vote.userVote,
-            };
-          });
-        }
-      },
-    });
+    // Optimistic votes, rollbacks and live scores for this post
+    this.voteStore
+      .changesFor('POST')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(({ target, id, ...votes }) => {
+        if (id !== this.postId) return;
+        this.post.update((current) => (current ? { ...current, ...votes } : null));
+      });
   }
 
   loadPost(): void {
@@ -119,19 +142,23 @@ export class PostDetailComponent implements OnInit, OnDestroy {
   }
 
   votePost(voteType: 'upvote' | 'downvote'): void {
-    if (!this.post()) return;
+    const currentPost = this.post();
+    if (!currentPost) return;
 
-    const currentPost = this.post()!;
     const apiVoteType = voteType === 'upvote' ? 'UPVOTE' : 'DOWNVOTE';
     const finalVote = currentPost.userVote === apiVoteType ? null : apiVoteType;
+    this.postService.votePost(currentPost, finalVote);
+  }
 
-    this.postService.votePost(currentPost.id, finalVote).subscribe({
-      next: (updatedPost) => {
-        this.post.set(updatedPost);
-      },
-      error: (err) => {
-        console.error('Error voting on post:', err);
-      },
+  toggleSave(): void {
+    const currentPost = this.post();
+    if (!currentPost) return;
+
+    const request = this.isSaved()
+      ? this.savedService.unsave('post', currentPost.id)
+      : this.savedService.save('post', currentPost.id);
+    request.subscribe({
+      error: (err) => console.error('Error saving post:', err),
     });
   }
 }
@@ -0,0 +1,151 @@
+import { Component, DestroyRef, OnInit, computed, inject } from '@angular/core';
+import { takeUntilDestroyed, toSignal } from '@angular/core/rxjs-interop';
+import { NgTemplateOutlet } from '@angular/common';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { Observable, Subscription } from 'rxjs';
+import { debounceTime, distinctUntilChanged, map } from 'rxjs/operators';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { MarkdownComponent } from '../../components/markdown/markdown.component';
+import { SavedService } from '../../services/saved.service';
+import { SubredditService } from '../../services/subreddit.service';
+import { SavedFilters, SavedItemType } from '../../models/saved.model';
+import { FormatNumberPipe, TimeAgoPipe, TruncatePipe } from '../../pipes/format.pipes';
+
+interface SavedQuery extends SavedFilters {
+  type: SavedItemType;
+}
+
+@Component({
+  selector: 'app-saved',
+  standalone: true,
+  imports: [
+    NgTemplateOutlet,
+    RouterModule,
+    ReactiveFormsModule,
+    SharedMaterialModule,
+    MarkdownComponent,
+    FormatNumberPipe,
+    TimeAgoPipe,
+    TruncatePipe,
+  ],
+  templateUrl: './saved.component.html',
+  styleUrl: './saved.component.scss',
+})
+export class SavedComponent implements OnInit {
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private destroyRef = inject(DestroyRef);
+  savedService = inject(SavedService);
+  subredditService = inject(SubredditService);
+
+  readonly pageSize = 20;
+  private loadRequest?: Subscription;
+
+  searchControl = new FormControl('', { nonNullable: true });
+  subredditControl = new FormControl('', { nonNullable: true });
+
+  // ?tab=comments&subreddit=name&q=text
+  query = toSignal(
+    this.route.queryParamMap.pipe(
+      map(
+        (params): SavedQuery => ({
+          type: params.get('tab') === 'comments' ? 'comment' : 'post',
+          subreddit: params.get('subreddit'),
+          q: params.get('q'),
+        }),
+      ),
+    ),
+    { initialValue: { type: 'post' } as SavedQuery },
+  );
+  selectedTabIndex = computed(() => (this.query().type === 'comment' ? 1 : 0));
+  isFiltered = computed(() => !!this.query().subreddit || !!this.query().q);
+
+  private subredditControlValue = toSignal(this.subredditControl.valueChanges, {
+    initialValue: '',
+  });
+  subredditSuggestions = computed(() => {
+    const typed = this.subredditControlValue().toLowerCase();
+    return this.subredditService
+      .userSubscriptions()
+      .filter((s) => s.name.toLowerCase().includes(typed))
+      .slice(0, 8);
+  });
+
+  ngOnInit(): void {
+    this.savedService.clearError();
+    this.subredditService.getUserSubscriptions().subscribe();
+
+    this.route.queryParamMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      const { subreddit, q } = this.query();
+      this.searchControl.setValue(q ?? '', { emitEvent: false });
+      this.subredditControl.setValue(subreddit ?? '', { emitEvent: false });
+      this.load(0);
+    });
+
+    this.searchControl.valueChanges
+      .pipe(debounceTime(300), distinctUntilChanged(), takeUntilDestroyed(this.destroyRef))
+      .subscribe((q) => this.updateQuery({ q: q.trim() || null }));
+
+    this.subredditControl.valueChanges
+      .pipe(
+        map((name) => name.trim().replace(/^\/?r\//i, '')),
+        debounceTime(300),
+        distinctUntilChanged(),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe((subreddit) => this.updateQuery({ subreddit: subreddit || null }));
+  }
+
+  onTabChange(index: number): void {
+    this.updateQuery({ tab: index === 1 ? 'comments' : null });
+  }
+
+  clearFilters(): void {
+    this.updateQuery({ subreddit: null, q: null });
+  }
+
+  loadMore(): void {
+    if (this.savedService.loading()) return;
+
+    const page =
+      this.query().type === 'post' ? this.savedService.postsPage() : this.savedService.commentsPage();
+    this.load(page + 1);
+  }
+
+  hasMore(): boolean {
+    return this.query().type === 'post'
+      ? this.savedService.hasMorePosts()
+      : this.savedService.hasMoreComments();
+  }
+
+  unsave(type: SavedItemType, id: number): void {
+    this.savedService.unsave(type, id).subscribe({
+      error: (err) => console.error('Error unsaving item:', err),
+    });
+  }
+
+  private load(page: number): void {
+    const { type, subreddit, q } = this.query();
+    const filters = { subreddit, q };
+    const request: Observable<unknown> =
+      type === 'post'
+        ? this.savedService.getSavedPosts(page, this.pageSize, filters)
+        : this.savedService.getSavedComments(page, this.pageSize, filters);
+
+    // A slower response for the previous filters must not land on top of this one
+    this.loadRequest?.unsubscribe();
+    this.loadRequest = request.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      error: (err) => console.error('Error loading saved items:', err),
+    });
+  }
+
+  private updateQuery(queryParams: Record<string, string | null>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+}
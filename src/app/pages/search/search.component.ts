@@ -17,6 +17,7 @@ import { debounceTime, distinctUntilChanged, switchMap } from 'rxjs/operators';
 import { Subject, of } from 'rxjs';
 import { SearchService } from '../../services/search.service';
 import {
+  SearchComment,
   SearchResponse,
   SearchType,
   SearchSort,
@@ -301,6 +302,10 @@ export class SearchComponent implements OnInit {
     this.router.navigate(['/posts', postId]);
   }
 
+  navigateToComment(comment: SearchComment): void {
+    this.router.navigate(['/posts', comment.postId, 'comments', comment.id]);
+  }
+
   navigateToUser(username: string): void {
     this.router.navigate(['/user', username]);
   }
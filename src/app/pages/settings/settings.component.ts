@@ -1,4 +1,4 @@
-import { Component, signal, OnInit } from '@angular/core';
+import { Component, computed, signal, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
@@ -11,19 +11,9 @@ import { MatSelectModule } from '@angular/material/select';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { AuthService } from '../../services/auth.service';
-
-interface UserSettings {
-  theme: 'light' | 'dark' | 'auto';
-  language: string;
-  nsfwEnabled: boolean;
-  autoplayEnabled: boolean;
-  showThumbnails: boolean;
-  compactView: boolean;
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  commentNotifications: boolean;
-  postNotifications: boolean;
-}
+import { PreferencesService } from '../../services/preferences.service';
+import { ThemeService } from '../../services/theme.service';
+import { DEFAULT_USER_PREFERENCES, UserPreferences } from '../../models/post.model';
 
 @Component({
   selector: 'app-settings',
@@ -46,20 +36,10 @@ interface UserSettings {
 })
 export class SettingsComponent implements OnInit {
   currentUser = signal<any>(null);
-  isSaving = signal(false);
-
-  settings = signal<UserSettings>({
-    theme: 'auto',
-    language: 'en',
-    nsfwEnabled: false,
-    autoplayEnabled: true,
-    showThumbnails: true,
-    compactView: false,
-    emailNotifications: true,
-    pushNotifications: false,
-    commentNotifications: true,
-    postNotifications: true,
-  });
+  isSaving = computed(() => this.preferencesService.saving());
+
+  // Local draft; only pushed to the server on save
+  settings = signal<UserPreferences>({ ...DEFAULT_USER_PREFERENCES });
 
   languages = [
     { value: 'en', label: 'English' },
@@ -70,8 +50,18 @@ export class SettingsComponent implements OnInit {
     { value: 'zh', label: '中文' },
   ];
 
+  collapseThresholds: { value: number | null; label: string }[] = [
+    { value: null, label: 'Never' },
+    { value: 0, label: 'Below 0' },
+    { value: -3, label: 'Below -3' },
+    { value: -5, label: 'Below -5' },
+    { value: -10, label: 'Below -10' },
+  ];
+
   constructor(
     private authService: AuthService,
+    private preferencesService: PreferencesService,
+    private themeService: ThemeService,
     private snackBar: MatSnackBar,
   ) {}
 
@@ -88,62 +78,56 @@ export class SettingsComponent implements OnInit {
   }
 
   loadSettings(): void {
-    const stored = localStorage.getItem('userSettings');
-    if (stored) {
-      this.settings.set(JSON.parse(stored));
-    }
+    this.settings.set({ ...this.preferencesService.preferences() });
+
+    this.preferencesService.loadPreferences().subscribe({
+      next: (preferences) => this.settings.set({ ...preferences }),
+      error: (err) => {
+        console.error('Error loading settings:', err);
+      },
+    });
   }
 
   saveSettings(): void {
-    this.isSaving.set(true);
-
-    // Save to localStorage (in a real app, this would be an API call)
-    localStorage.setItem('userSettings', JSON.stringify(this.settings()));
-
-    // Apply theme
-    this.applyTheme(this.settings().theme);
-
-    setTimeout(() => {
-      this.isSaving.set(false);
-      this.snackBar.open('Settings saved successfully!', 'Close', {
-        duration: 3000,
-        horizontalPosition: 'end',
-        verticalPosition: 'top',
-      });
-    }, 500);
+    this.preferencesService.savePreferences(this.settings()).subscribe({
+      next: (saved) => {
+        this.settings.set({ ...saved });
+        this.applyTheme(saved.theme);
+        this.snackBar.open('Settings saved successfully!', 'Close', {
+          duration: 3000,
+          horizontalPosition: 'end',
+          verticalPosition: 'top',
+        });
+      },
+      error: () => {
+        this.snackBar.open(
+          this.preferencesService.error() ?? 'Failed to save settings.',
+          'Close',
+          {
+            duration: 5000,
+            horizontalPosition: 'end',
+            verticalPosition: 'top',
+          },
+        );
+      },
+    });
   }
 
   resetSettings(): void {
-    const defaultSettings: UserSettings = {
-      theme: 'auto',
-      language: 'en',
-      nsfwEnabled: false,
-      autoplayEnabled: true,
-      showThumbnails: true,
-      compactView: false,
-      emailNotifications: true,
-      pushNotifications: false,
-      commentNotifications: true,
-      postNotifications: true,
-    };
-
-    this.settings.set(defaultSettings);
+    this.settings.set({ ...DEFAULT_USER_PREFERENCES });
     this.saveSettings();
   }
 
-  private applyTheme(theme: 'light' | 'dark' | 'auto'): void {
-    const body = document.body;
-    body.classList.remove('light-theme', 'dark-theme');
-
+  private applyTheme(theme: UserPreferences['theme']): void {
     if (theme === 'auto') {
       const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-      body.classList.add(prefersDark ? 'dark-theme' : 'light-theme');
+      this.themeService.setTheme(prefersDark ? 'dark' : 'light');
     } else {
-      body.classList.add(`${theme}-theme`);
+      this.themeService.setTheme(theme);
     }
   }
 
-  onThemeChange(theme: 'light' | 'dark' | 'auto'): void {
+  onThemeChange(theme: UserPreferences['theme']): void {
     const currentSettings = this.settings();
     this.settings.set({ ...currentSettings, theme });
   }
@@ -153,7 +137,12 @@ export class SettingsComponent implements OnInit {
     this.settings.set({ ...currentSettings, language });
   }
 
-  onToggleChange(key: keyof UserSettings, value: boolean): void {
+  onCollapseThresholdChange(collapseBelowScore: number | null): void {
+    const currentSettings = this.settings();
+    this.settings.set({ ...currentSettings, collapseBelowScore });
+  }
+
+  onToggleChange(key: keyof UserPreferences, value: boolean): void {
     const currentSettings = this.settings();
     this.settings.set({ ...currentSettings, [key]: value });
   }
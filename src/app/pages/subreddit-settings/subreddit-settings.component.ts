@@ -0,0 +1,214 @@
+import { Component, computed, inject, OnInit, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { MatRadioModule } from '@angular/material/radio';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  Validators,
+  AbstractControl,
+  ValidationErrors,
+} from '@angular/forms';
+import { SharedMaterialModule } from '../../shared/shared-material.module';
+import { MarkdownEditorComponent } from '../../components/markdown-editor/markdown-editor.component';
+import { SubredditHeaderPreviewComponent } from '../../components/subreddit-header-preview/subreddit-header-preview.component';
+import { SubredditRulesEditorComponent } from '../../components/subreddit-rules-editor/subreddit-rules-editor.component';
+import { SubredditService } from '../../services/subreddit.service';
+import {
+  getSubredditVisibility,
+  SUBREDDIT_VISIBILITY_OPTIONS,
+  SubredditResponse,
+  SubredditVisibility,
+  toVisibilityFlags,
+  UpdateSubredditDto,
+  validateSubredditTitle,
+} from '../../models/subreddit.model';
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+interface SettingsValue {
+  title: string;
+  description: string;
+  sidebarText: string;
+  iconImageUrl: string;
+  headerImageUrl: string;
+  visibility: SubredditVisibility;
+  isOver18: boolean;
+}
+
+interface SettingsChange {
+  field: keyof SettingsValue;
+  label: string;
+  before: string;
+  after: string;
+}
+
+const FIELD_LABELS: Record<keyof SettingsValue, string> = {
+  title: 'Title',
+  description: 'Description',
+  sidebarText: 'Sidebar',
+  iconImageUrl: 'Icon',
+  headerImageUrl: 'Banner',
+  visibility: 'Visibility',
+  isOver18: 'NSFW',
+};
+
+@Component({
+  selector: 'app-subreddit-settings',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    SharedMaterialModule,
+    MatRadioModule,
+    MarkdownEditorComponent,
+    SubredditHeaderPreviewComponent,
+    SubredditRulesEditorComponent,
+  ],
+  templateUrl: './subreddit-settings.component.html',
+  styleUrl: './subreddit-settings.component.scss',
+})
+export class SubredditSettingsComponent implements OnInit {
+  private fb = inject(FormBuilder);
+  private route = inject(ActivatedRoute);
+  private snackBar = inject(MatSnackBar);
+  subredditService = inject(SubredditService);
+
+  readonly visibilityOptions = SUBREDDIT_VISIBILITY_OPTIONS;
+
+  subreddit = signal<SubredditResponse | null>(null);
+  loading = signal<boolean>(false);
+  saving = signal<boolean>(false);
+
+  settingsForm = this.fb.nonNullable.group({
+    title: ['', [this.titleValidator]],
+    description: ['', [Validators.maxLength(500)]],
+    sidebarText: ['', [Validators.maxLength(10000)]],
+    iconImageUrl: ['', [Validators.pattern(URL_PATTERN)]],
+    headerImageUrl: ['', [Validators.pattern(URL_PATTERN)]],
+    visibility: ['public' as SubredditVisibility],
+    isOver18: [false],
+  });
+
+  private formValue = toSignal(this.settingsForm.valueChanges, {
+    initialValue: this.settingsForm.getRawValue(),
+  });
+
+  // Every field whose saved value differs from what is in the form
+  changes = computed<SettingsChange[]>(() => {
+    const subreddit = this.subreddit();
+    if (!subreddit) return [];
+
+    const before = this.toSettingsValue(subreddit);
+    const after = { ...before, ...this.formValue() };
+
+    return (Object.keys(FIELD_LABELS) as (keyof SettingsValue)[])
+      .filter((field) => this.normalize(before[field]) !== this.normalize(after[field]))
+      .map((field) => ({
+        field,
+        label: FIELD_LABELS[field],
+        before: this.describe(field, before[field]),
+        after: this.describe(field, after[field]),
+      }));
+  });
+
+  ngOnInit(): void {
+    this.subredditService.clearError();
+    const name = this.route.snapshot.paramMap.get('subreddit') ?? '';
+
+    // moderatorGuard has just loaded it
+    const current = this.subredditService.currentSubreddit();
+    if (current?.name.toLowerCase() === name.toLowerCase()) {
+      this.applySubreddit(current);
+      return;
+    }
+
+    this.loading.set(true);
+    this.subredditService.getSubredditByName(name).subscribe({
+      next: (subreddit) => {
+        this.applySubreddit(subreddit);
+        this.loading.set(false);
+      },
+      error: () => this.loading.set(false),
+    });
+  }
+
+  onSave(): void {
+    const subreddit = this.subreddit();
+    const changes = this.changes();
+    if (!subreddit || changes.length === 0 || this.saving()) return;
+    if (this.settingsForm.invalid) {
+      this.settingsForm.markAllAsTouched();
+      return;
+    }
+
+    const value = this.settingsForm.getRawValue();
+    const payload: UpdateSubredditDto = {};
+    for (const { field } of changes) {
+      if (field === 'visibility') {
+        Object.assign(payload, toVisibilityFlags(value.visibility));
+      } else if (field === 'isOver18') {
+        payload.isOver18 = value.isOver18;
+      } else {
+        // An empty string clears the field
+        payload[field] = value[field].trim();
+      }
+    }
+
+    this.saving.set(true);
+    this.subredditService.updateSubreddit(subreddit.id, payload).subscribe({
+      next: (updated) => {
+        this.applySubreddit(updated);
+        this.saving.set(false);
+        this.snackBar.open('Community settings saved', 'Close', { duration: 3000 });
+      },
+      error: () => this.saving.set(false),
+    });
+  }
+
+  onDiscard(): void {
+    const subreddit = this.subreddit();
+    if (subreddit) {
+      this.settingsForm.reset(this.toSettingsValue(subreddit));
+    }
+  }
+
+  private applySubreddit(subreddit: SubredditResponse): void {
+    this.subreddit.set(subreddit);
+    this.settingsForm.reset(this.toSettingsValue(subreddit));
+  }
+
+  private toSettingsValue(subreddit: SubredditResponse): SettingsValue {
+    return {
+      title: subreddit.title,
+      description: subreddit.description ?? '',
+      sidebarText: subreddit.sidebarText ?? '',
+      iconImageUrl: subreddit.iconImageUrl ?? '',
+      headerImageUrl: subreddit.headerImageUrl ?? '',
+      visibility: getSubredditVisibility(subreddit),
+      isOver18: subreddit.isOver18,
+    };
+  }
+
+  private normalize(value: string | boolean): string | boolean {
+    return typeof value === 'string' ? value.trim() : value;
+  }
+
+  private describe(field: keyof SettingsValue, value: string | boolean): string {
+    if (field === 'visibility') {
+      return this.visibilityOptions.find((option) => option.value === value)?.label ?? '';
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    return value.trim() || '(none)';
+  }
+
+  private titleValidator(control: AbstractControl): ValidationErrors | null {
+    const message = validateSubredditTitle(control.value);
+    return message ? { invalidTitle: message } : null;
+  }
+}
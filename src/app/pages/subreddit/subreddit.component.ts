@@ -1,14 +1,42 @@
-import { Component, inject, OnInit, signal } from '@angular/core';
+import {
+  Component,
+  computed,
+  DestroyRef,
+  effect,
+  ElementRef,
+  inject,
+  OnDestroy,
+  OnInit,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Subscription } from 'rxjs';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router, RouterModule } from '@angular/router';
 import { SharedMaterialModule } from '../../shared/shared-material.module';
 import { SubredditService } from '../../services/subreddit.service';
 import { PostService } from '../../services/post.service';
 import { AuthService } from '../../services/auth.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { WebSocketService } from '../../services/websocket.service';
+import { HiddenService } from '../../services/hidden.service';
+import { NewPostsPillComponent } from '../../components/new-posts-pill/new-posts-pill.component';
+import { MarkdownComponent } from '../../components/markdown/markdown.component';
+import { PollWidgetComponent } from '../../components/poll-widget/poll-widget.component';
 import { SubredditResponse } from '../../models/subreddit.model';
-import { Post } from '../../models/post.model';
+import {
+  Post,
+  POST_SORT_OPTIONS,
+  PostSort,
+  TOP_TIME_PERIOD_OPTIONS,
+  TopTimePeriod,
+} from '../../models/post.model';
 import { FormatNumberPipe, TimeAgoPipe } from '../../pipes/format.pipes';
 
+const POSTS_PAGE_SIZE = 20;
+const MAX_BUFFERED_POSTS = 50;
+
 @Component({
   selector: 'app-subreddit',
   standalone: true,
@@ -16,18 +44,25 @@ import { FormatNumberPipe, TimeAgoPipe } from '../../pipes/format.pipes';
     CommonModule,
     RouterModule,
     SharedMaterialModule,
+    NewPostsPillComponent,
+    MarkdownComponent,
+    PollWidgetComponent,
     FormatNumberPipe,
     TimeAgoPipe,
   ],
   templateUrl: './subreddit.component.html',
   styleUrl: './subreddit.component.scss',
 })
-export class SubredditComponent implements OnInit {
+export class SubredditComponent implements OnInit, OnDestroy {
   private route = inject(ActivatedRoute);
   private router = inject(Router);
   private subredditService = inject(SubredditService);
   private postService = inject(PostService);
   private authService = inject(AuthService);
+  private wsService = inject(WebSocketService);
+  private hiddenService = inject(HiddenService);
+  private destroyRef = inject(DestroyRef);
+  preferencesService = inject(PreferencesService);
 
   subredditName = signal<string>('');
   subreddit = signal<SubredditResponse | null>(null);
@@ -35,15 +70,80 @@ export class SubredditComponent implements OnInit {
   loading = signal<boolean>(false);
   error = signal<string | null>(null);
 
+  // Hidden posts are never listed, NSFW posts only when the user opted in
+  visiblePosts = computed(() => {
+    const posts = this.posts().filter((p) => !this.hiddenService.isHidden(p.id, p.isHidden));
+    return this.preferencesService.nsfwEnabled() ? posts : posts.filter((p) => !p.isOver18);
+  });
+
+  rules = computed(() =>
+    [...(this.subreddit()?.rules ?? [])].sort((a, b) => a.priority - b.priority),
+  );
+
   activeTab = signal<number>(0);
-  sortBy = signal<'hot' | 'new' | 'top'>('hot');
+  readonly sortOptions = POST_SORT_OPTIONS;
+  readonly timePeriodOptions = TOP_TIME_PERIOD_OPTIONS;
+  sortBy = signal<PostSort>('hot');
+  timePeriod = signal<TopTimePeriod>('day');
+
+  timePeriodLabel = computed(
+    () => this.timePeriodOptions.find((option) => option.value === this.timePeriod())?.label,
+  );
+
+  // Pagination
+  currentPage = signal<number>(0);
+  hasMore = signal<boolean>(false);
+  loadingPosts = signal<boolean>(false);
+  loadingMore = signal<boolean>(false);
+  private postsRequest?: Subscription;
+
+  private postsSentinel = viewChild<ElementRef<HTMLElement>>('postsSentinel');
+
+  // New posts announced over the socket, waiting for the user to reveal them
+  pendingPostIds = signal<number[]>([]);
+  revealingPosts = signal<boolean>(false);
+  private watchedSubredditId: number | null = null;
+
+  constructor() {
+    // The sentinel only renders once the subreddit has loaded
+    effect((onCleanup) => {
+      const sentinel = this.postsSentinel()?.nativeElement;
+      if (!sentinel || typeof IntersectionObserver === 'undefined') return;
+
+      // Start fetching a little before the sentinel scrolls into view
+      const observer = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) {
+            this.loadMore();
+          }
+        },
+        { rootMargin: '600px 0px' },
+      );
+      observer.observe(sentinel);
+      onCleanup(() => observer.disconnect());
+    });
+  }
 
   ngOnInit(): void {
     const name = this.route.snapshot.paramMap.get('subreddit');
     if (name) {
       this.subredditName.set(name);
       this.loadSubreddit(name);
-      this.loadPosts();
+    }
+
+    this.wsService.subredditUpdates$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      next: (update) => {
+        if (update.subredditId !== this.watchedSubredditId) return;
+        if (update.updateType !== 'NEW_POST' || update.postId === undefined) return;
+        this.bufferNewPost(update.postId);
+      },
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.postsRequest?.unsubscribe();
+    if (this.watchedSubredditId !== null) {
+      this.wsService.unsubscribeFromSubreddit(this.watchedSubredditId);
     }
   }
 
@@ -55,6 +155,8 @@ export class SubredditComponent implements OnInit {
       next: (subreddit) => {
         this.subreddit.set(subreddit);
         this.loading.set(false);
+        this.watchSubreddit(subreddit.id);
+        this.loadPosts();
       },
       error: (err) => {
         console.error('Error loading subreddit:', err);
@@ -64,52 +166,105 @@ export class SubredditComponent implements OnInit {
     });
   }
 
+  /**
+   * Load the first page for the current sort, replacing the listing
+   */
   loadPosts(): void {
+    this.pendingPostIds.set([]);
+    this.posts.set([]);
+    this.currentPage.set(0);
+    this.hasMore.set(false);
+    this.fetchPage(0);
+  }
+
+  loadMore(): void {
+    if (!this.hasMore() || this.loadingPosts() || this.loadingMore()) return;
+    this.fetchPage(this.currentPage() + 1);
+  }
+
+  private fetchPage(page: number): void {
     const subreddit = this.subreddit();
     if (!subreddit) return;
 
-    const sort = this.sortBy();
-    const subredditId = subreddit.id;
+    // A sort change supersedes whatever page was still loading
+    this.postsRequest?.unsubscribe();
+    this.loadingPosts.set(false);
+    this.loadingMore.set(false);
+    const loadingFlag = page === 0 ? this.loadingPosts : this.loadingMore;
+    loadingFlag.set(true);
 
-    if (sort === 'hot') {
-      this.postService.getSubredditPosts(subredditId, 0, 20).subscribe({
-        next: (response) => {
-          this.posts.set(response.content);
-        },
-        error: (err) => {
-          console.error('Error loading posts:', err);
-        },
-      });
-    } else if (sort === 'new') {
-      this.postService.getNewPosts(0, 20).subscribe({
-        next: (response) => {
-          // Filter by subreddit
-          const filtered = response.content.filter((p) => p.subreddit.id === subredditId);
-          this.posts.set(filtered);
-        },
-        error: (err) => {
-          console.error('Error loading posts:', err);
-        },
-      });
-    } else if (sort === 'top') {
-      this.postService.getTopPosts(0, 20).subscribe({
+    this.postsRequest = this.postService
+      .getSubredditPosts(subreddit.id, page, POSTS_PAGE_SIZE, this.sortBy(), this.timePeriod())
+      .subscribe({
         next: (response) => {
-          // Filter by subreddit
-          const filtered = response.content.filter((p) => p.subreddit.id === subredditId);
-          this.posts.set(filtered);
+          // Skip posts that shifted into this page from an earlier one
+          const known = new Set(this.posts().map((p) => p.id));
+          const fresh = response.content.filter((p) => !known.has(p.id));
+
+          this.posts.update((posts) => (page === 0 ? response.content : [...posts, ...fresh]));
+          this.currentPage.set(response.page);
+          // An all-duplicate page means the server has nothing new to give
+          this.hasMore.set(
+            response.page + 1 < response.totalPages && (page === 0 || fresh.length > 0),
+          );
+          loadingFlag.set(false);
         },
         error: (err) => {
           console.error('Error loading posts:', err);
+          loadingFlag.set(false);
         },
       });
+  }
+
+  private watchSubreddit(subredditId: number): void {
+    if (this.watchedSubredditId === subredditId) return;
+    if (this.watchedSubredditId !== null) {
+      this.wsService.unsubscribeFromSubreddit(this.watchedSubredditId);
     }
+    this.watchedSubredditId = subredditId;
+    this.wsService.subscribeToSubreddit(subredditId);
+  }
+
+  private bufferNewPost(postId: number): void {
+    if (this.posts().some((p) => p.id === postId)) return;
+    if (this.pendingPostIds().includes(postId)) return;
+
+    this.pendingPostIds.update((ids) => [postId, ...ids].slice(0, MAX_BUFFERED_POSTS));
+  }
+
+  showNewPosts(): void {
+    const subreddit = this.subreddit();
+    const postIds = this.pendingPostIds();
+    if (!subreddit || postIds.length === 0 || this.revealingPosts()) return;
+
+    this.revealingPosts.set(true);
+    this.postService.getNewPostsByIds(subreddit.id, postIds).subscribe({
+      next: (posts) => {
+        const known = new Set(this.posts().map((p) => p.id));
+        const fresh = posts
+          .filter((p) => !known.has(p.id))
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+        this.posts.update((current) => [...fresh, ...current]);
+        this.pendingPostIds.set([]);
+        this.revealingPosts.set(false);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+      },
+      error: () => this.revealingPosts.set(false),
+    });
   }
 
-  onSortChange(sort: 'hot' | 'new' | 'top'): void {
+  onSortChange(sort: PostSort): void {
+    if (sort === this.sortBy()) return;
     this.sortBy.set(sort);
     this.loadPosts();
   }
 
+  onTimePeriodChange(timePeriod: TopTimePeriod): void {
+    this.timePeriod.set(timePeriod);
+    this.loadPosts();
+  }
+
   toggleSubscription(): void {
     const subreddit = this.subreddit();
     if (!subreddit) return;
@@ -162,6 +317,19 @@ export class SubredditComponent implements OnInit {
     });
   }
 
+  hidePost(post: Post): void {
+    if (!this.authService.isAuthenticated()) {
+      this.router.navigate(['/auth/login']);
+      return;
+    }
+
+    this.hiddenService.hide(post.id).subscribe({
+      error: (err) => {
+        console.error('Error hiding post:', err);
+      },
+    });
+  }
+
   navigateToPost(postId: number): void {
     this.router.navigate(['/posts', postId]);
   }
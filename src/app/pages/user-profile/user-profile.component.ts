@@ -12,6 +12,7 @@ import { MatMenuModule } from '@angular/material/menu';
 import { UserService } from '../../services/user.service';
 import { PostService } from '../../services/post.service';
 import { AuthService } from '../../services/auth.service';
+import { HiddenService } from '../../services/hidden.service';
 import { UserResponse, getKarmaLevel, formatKarma } from '../../models/user.model';
 import { Post } from '../../models/post.model';
 
@@ -39,6 +40,7 @@ export class UserProfileComponent implements OnInit {
   private userService = inject(UserService);
   private postService = inject(PostService);
   private authService = inject(AuthService);
+  hiddenService = inject(HiddenService);
 
   username = signal<string>('');
   user = signal<UserResponse | null>(null);
@@ -66,6 +68,9 @@ export class UserProfileComponent implements OnInit {
         this.user.set(user);
         this.loading.set(false);
         this.loadUserPosts(user.id);
+        if (this.isOwnProfile()) {
+          this.loadHiddenPosts();
+        }
       },
       error: (err) => {
         console.error('Error loading user:', err);
@@ -86,6 +91,22 @@ export class UserProfileComponent implements OnInit {
     });
   }
 
+  loadHiddenPosts(page: number = 0): void {
+    this.hiddenService.getHiddenPosts(page, 20).subscribe({
+      error: (err) => {
+        console.error('Error loading hidden posts:', err);
+      },
+    });
+  }
+
+  unhidePost(postId: number): void {
+    this.hiddenService.unhide(postId).subscribe({
+      error: (err) => {
+        console.error('Error unhiding post:', err);
+      },
+    });
+  }
+
   checkIfOwnProfile(username: string): void {
     const currentUser = this.authService.currentUser();
     this.isOwnProfile.set(currentUser?.username === username);
@@ -103,6 +124,12 @@ export class UserProfileComponent implements OnInit {
     this.router.navigate(['/settings']);
   }
 
+  messageUser(): void {
+    const username = this.user()?.username;
+    if (!username) return;
+    this.router.navigate(['/messages'], { queryParams: { to: username } });
+  }
+
   getKarmaLevel(karma: number) {
     return getKarmaLevel(karma);
   }
@@ -3,7 +3,16 @@ import { HttpClient } from '@angular/common/http';
 import { Router } from '@angular/router';
 import { Observable, BehaviorSubject, of, throwError, Subscription, timer } from 'rxjs';
 import { map, catchError, tap, switchMap, shareReplay, distinctUntilChanged } from 'rxjs/operators';
-import { ApiUser, AuthResponse, LoginRequest, RegisterRequest, ErrorType } from '../models/post.model';
+import {
+  ApiUser,
+  AuthResponse,
+  LoginRequest,
+  RegisterRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  ErrorType,
+  getErrorStatus
+} from '../models/post.model';
 import { ErrorHandlerService } from './error-handler.service';
 
 import { environment } from '../../environments/environment';
@@ -126,6 +135,52 @@ export class AuthService implements OnDestroy {
     );
   }
 
+  // ── POST /api/auth/forgot-password ──
+  forgotPassword(email: string): Observable<void> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    const body: ForgotPasswordRequest = { email };
+
+    return this.http.post<void>(`${this.apiUrl}/forgot-password`, body).pipe(
+      tap(() => this.loading.set(false)),
+      catchError(err => {
+        this.loading.set(false);
+
+        if (getErrorStatus(err) === 429) {
+          this.error.set('Too many reset requests. Please wait before trying again.');
+        }
+
+        return this.errorHandler.handleError(err);
+      })
+    );
+  }
+
+  // ── POST /api/auth/reset-password  (signs the user in on success) ──
+  resetPassword(data: ResetPasswordRequest): Observable<AuthResponse> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http.post<AuthResponse>(`${this.apiUrl}/reset-password`, data).pipe(
+      tap(res => {
+        this.handleAuthSuccess(res);
+        this.loading.set(false);
+      }),
+      catchError(err => {
+        this.loading.set(false);
+
+        const status = getErrorStatus(err);
+        if (status === 404 || status === 410) {
+          this.error.set('This reset link is invalid or has expired.');
+        } else if (status === 429) {
+          this.error.set('Too many attempts. Please wait before trying again.');
+        }
+
+        return this.errorHandler.handleError(err);
+      })
+    );
+  }
+
   // ── POST /api/auth/refresh  (body = raw refresh-token string) ──
   refreshToken(): Observable<AuthResponse> {
     const refreshToken = localStorage.getItem(this.REFRESH_TOKEN_KEY);
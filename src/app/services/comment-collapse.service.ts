@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+
+// Explicit collapse choices for one post's comments: commentId -> collapsed
+export type CollapseState = Record<number, boolean>;
+
+interface StoredCollapseState {
+  postId: number;
+  state: CollapseState;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CommentCollapseService {
+  private readonly STORAGE_KEY = 'reddit_comment_collapse';
+  private readonly MAX_POSTS = 100;
+
+  /**
+   * Collapse choices the user made on a post's comments
+   */
+  getState(postId: number): CollapseState {
+    return this.read().find((entry) => entry.postId === postId)?.state ?? {};
+  }
+
+  /**
+   * Remember collapse choices for a post, keeping only the most recently touched posts
+   */
+  saveState(postId: number, state: CollapseState): void {
+    const entries = [{ postId, state }, ...this.read().filter((entry) => entry.postId !== postId)];
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries.slice(0, this.MAX_POSTS)));
+    } catch (e) {
+      console.error('Error saving comment collapse state:', e);
+    }
+  }
+
+  // Most recently touched post first
+  private read(): StoredCollapseState[] {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) return [];
+
+    try {
+      const entries = JSON.parse(stored);
+      return Array.isArray(entries) ? entries : [];
+    } catch (e) {
+      console.error('Error loading comment collapse state:', e);
+      return [];
+    }
+  }
+}
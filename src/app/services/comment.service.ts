@@ -1,10 +1,11 @@
 import { Injectable, signal } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, tap } from 'rxjs/operators';
+import { Observable, forkJoin, of, throwError } from 'rxjs';
+import { map, catchError, tap } from 'rxjs/operators';
 import {
   Comment,
   CommentResponse,
+  CommentSort,
   CreateCommentDto,
   UpdateCommentDto,
   PaginatedResponse,
@@ -69,19 +70,41 @@ export class CommentService {
     );
   }
 
+  /**
+   * GET /api/comments/{commentId} for each id
+   * Fetch several comments without touching loading state; ids that fail to load are skipped
+   */
+  getCommentsByIds(commentIds: number[]): Observable<CommentResponse[]> {
+    if (commentIds.length === 0) return of([]);
+
+    return forkJoin(
+      commentIds.map((commentId) =>
+        this.http
+          .get<CommentResponse>(`${this.apiUrl}/${commentId}`)
+          .pipe(catchError(() => of(null))),
+      ),
+    ).pipe(
+      map((comments) => comments.filter((comment): comment is CommentResponse => comment !== null)),
+    );
+  }
+
   /**
    * GET /api/comments/post/{postId}
-   * Get top-level comments for a post (paginated, sorted by score)
+   * Get top-level comments for a post (paginated, in the given sort order)
    */
   getPostComments(
     postId: number,
     page: number = 0,
     size: number = 20,
+    sort: CommentSort = 'best',
   ): Observable<PaginatedResponse<CommentResponse>> {
     this.loading.set(true);
     this.error.set(null);
 
-    const params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString())
+      .set('sort', sort);
 
     return this.http
       .get<PaginatedResponse<CommentResponse>>(`${this.apiUrl}/post/${postId}`, { params })
@@ -236,39 +259,6 @@ export class CommentService {
       );
   }
 
-  /**
-   * Vote on a comment (upvote/downvote)
-   * Note: This endpoint is not in the provided API spec, but is commonly needed
-   * You may need to adjust this based on your actual voting API
-   */
-  voteComment(
-    commentId: number,
-    voteType: 'UPVOTE' | 'DOWNVOTE' | null,
-  ): Observable<CommentResponse> {
-    this.loading.set(true);
-    this.error.set(null);
-
-    return this.http
-      .post<CommentResponse>(`${this.apiUrl}/${commentId}/vote`, { type: voteType })
-      .pipe(
-        tap((updatedComment) => {
-          // Update in local state
-          const currentComments = this.comments();
-          const index = currentComments.findIndex((c) => c.id === commentId);
-          if (index !== -1) {
-            currentComments[index] = updatedComment;
-            this.comments.set([...currentComments]);
-          }
-          this.loading.set(false);
-        }),
-        catchError((error) => {
-          this.loading.set(false);
-          this.handleError(error);
-          return throwError(() => error);
-        }),
-      );
-  }
-
   /**
    * Utility: Clear error state
    */
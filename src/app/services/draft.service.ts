@@ -0,0 +1,190 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { Draft, SaveDraftInput } from '../models/draft.model';
+import { AuthService } from './auth.service';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DraftService {
+  private authService = inject(AuthService);
+
+  private readonly DB_NAME = 'reddit_drafts';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'drafts';
+  private readonly AUTOSAVE_DELAY = 800;
+
+  // Every stored draft, for all users who signed in on this device
+  private allDrafts = signal<Draft[]>([]);
+  private db: Promise<IDBDatabase | null> = this.openDatabase();
+  private pendingWrites = new Map<string, ReturnType<typeof setTimeout>>();
+  // Editors on the current page holding text that has not been posted
+  private unsentKeys = new Set<string>();
+
+  // Current user's drafts, most recently edited first
+  drafts = computed(() => {
+    const userId = this.authService.currentUser()?.id;
+    return this.allDrafts()
+      .filter((draft) => draft.userId === userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  });
+  count = computed(() => this.drafts().length);
+
+  // Resolves once stored drafts are loaded; editors wait for it before restoring
+  readonly ready: Promise<void> = this.loadAll();
+
+  constructor() {
+    window.addEventListener('beforeunload', (event) => {
+      if (!this.hasUnsentText()) return;
+      this.flush();
+      event.preventDefault();
+    });
+  }
+
+  get(key: string): Draft | null {
+    return this.drafts().find((draft) => draft.key === key) ?? null;
+  }
+
+  /**
+   * Update a draft right away and write it to IndexedDB once typing pauses.
+   * Saving a blank editor discards the draft.
+   */
+  save(input: SaveDraftInput): void {
+    const userId = this.authService.currentUser()?.id;
+    if (userId === undefined) return;
+
+    if (this.isBlank(input)) {
+      this.discard(input.key);
+      return;
+    }
+
+    const draft: Draft = {
+      title: null,
+      form: null,
+      ...input,
+      userId,
+      updatedAt: new Date().toISOString(),
+    };
+    this.allDrafts.update((drafts) => [
+      draft,
+      ...drafts.filter((d) => !this.isSame(d, draft.userId, draft.key)),
+    ]);
+    this.unsentKeys.add(draft.key);
+
+    clearTimeout(this.pendingWrites.get(draft.key));
+    this.pendingWrites.set(
+      draft.key,
+      setTimeout(() => this.persist(draft.key), this.AUTOSAVE_DELAY),
+    );
+  }
+
+  /**
+   * Drop a draft, e.g. after it was posted or the editor was cancelled
+   */
+  discard(key: string): void {
+    const userId = this.authService.currentUser()?.id;
+    if (userId === undefined) return;
+
+    clearTimeout(this.pendingWrites.get(key));
+    this.pendingWrites.delete(key);
+    this.unsentKeys.delete(key);
+    this.allDrafts.update((drafts) => drafts.filter((d) => !this.isSame(d, userId, key)));
+    this.withStore('readwrite', (store) => store.delete([userId, key]));
+  }
+
+  discardAll(): void {
+    for (const draft of this.drafts()) {
+      this.discard(draft.key);
+    }
+  }
+
+  /**
+   * The editor for this draft closed without posting; the draft stays stored
+   */
+  release(key: string): void {
+    this.unsentKeys.delete(key);
+  }
+
+  hasUnsentText(): boolean {
+    return [...this.unsentKeys].some((key) => this.get(key) !== null);
+  }
+
+  /**
+   * Write pending autosaves immediately, e.g. before leaving the page
+   */
+  flush(): void {
+    for (const [key, timer] of this.pendingWrites) {
+      clearTimeout(timer);
+      this.persist(key);
+    }
+  }
+
+  // ── IndexedDB ──
+
+  private persist(key: string): void {
+    this.pendingWrites.delete(key);
+    const draft = this.get(key);
+    if (draft) {
+      this.withStore('readwrite', (store) => store.put(draft));
+    }
+  }
+
+  private async loadAll(): Promise<void> {
+    const stored = ((await this.withStore('readonly', (store) => store.getAll())) ?? []) as Draft[];
+    // Keep anything typed while the database was still opening
+    this.allDrafts.update((drafts) => [
+      ...drafts,
+      ...stored.filter((s) => !drafts.some((d) => this.isSame(d, s.userId, s.key))),
+    ]);
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    return new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.STORE_NAME, { keyPath: ['userId', 'key'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing can refuse IndexedDB; drafts then only live for this session
+        console.error('Error opening drafts database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T | undefined> {
+    const db = await this.db;
+    if (!db) return undefined;
+
+    return new Promise((resolve) => {
+      const request = operation(db.transaction(this.STORE_NAME, mode).objectStore(this.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error accessing drafts:', request.error);
+        resolve(undefined);
+      };
+    });
+  }
+
+  // A post draft also counts its link and poll options; the community and
+  // flair are kept with a draft but never start one on their own
+  private isBlank(input: SaveDraftInput): boolean {
+    if (input.content.trim() || input.title?.trim()) return false;
+    if (input.kind !== 'post' || !input.form) return true;
+
+    const form = input.form;
+    return !form.url.trim() && form.poll.options.every((option) => !option.trim());
+  }
+
+  private isSame(draft: Draft, userId: number, key: string): boolean {
+    return draft.userId === userId && draft.key === key;
+  }
+}
@@ -1,33 +1,59 @@
-import { Injectable, inject, signal } from '@angular/core';
+import { Injectable, computed, inject, signal } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, catchError, tap } from 'rxjs';
+import { Observable, catchError, finalize, tap } from 'rxjs';
 import {
+  FeedPost,
   FeedResponse,
   FeedQueryParams,
   FeedPostRequest,
+  FeedViewState,
 } from '../models/feed.model';
+import { HiddenService } from './hidden.service';
+import { PreferencesService } from './preferences.service';
+import { VoteChange, VoteStoreService } from './vote-store.service';
 
 @Injectable({
   providedIn: 'root',
 })
 export class FeedService {
   private http = inject(HttpClient);
+  private preferences = inject(PreferencesService);
+  private voteStore = inject(VoteStoreService);
+  private hiddenService = inject(HiddenService);
   private baseUrl = '/api/feed';
 
+  // Every post loaded, including ones the user hid; hiding keeps a post's place for undo
+  private loadedPosts = signal<FeedResponse['posts']>([]);
+
   // State signals
-  posts = signal<FeedResponse['posts']>([]);
+  posts = computed(() =>
+    this.loadedPosts().filter((p) => !this.hiddenService.isHidden(p.id, p.userInteraction.isHidden)),
+  );
   suggestedUsers = signal<FeedResponse['suggestedUsers']>([]);
   algorithmInfo = signal<FeedResponse['algorithmInfo'] | null>(null);
   totalAvailable = signal<number>(0);
   hasMore = signal<boolean>(false);
+  nextCursor = signal<string | null>(null);
   loading = signal<boolean>(false);
+  loadingMore = signal<boolean>(false);
   error = signal<string | null>(null);
 
+  // Home feed view state kept while the user is on a post page
+  private savedView: FeedViewState | null = null;
+  // Rows read from the server so far; live posts added at the top don't count
+  private serverOffset = 0;
+
+  constructor() {
+    this.voteStore.changesFor('POST').subscribe((change) => this.applyVoteChange(change));
+  }
+
   /**
-   * Get personalized feed with query parameters
+   * Get personalized feed with query parameters.
+   * Passing a cursor or offset fetches a later page and appends it to `posts`.
    */
   getFeed(params: FeedQueryParams = {}): Observable<FeedResponse> {
-    this.loading.set(true);
+    const append = params.cursor !== undefined || (params.offset ?? 0) > 0;
+    (append ? this.loadingMore : this.loading).set(true);
     this.error.set(null);
 
     let httpParams = new HttpParams();
@@ -35,12 +61,18 @@ export class FeedService {
     if (params.limit !== undefined) {
       httpParams = httpParams.set('limit', params.limit.toString());
     }
+    if (params.cursor !== undefined) {
+      httpParams = httpParams.set('cursor', params.cursor);
+    } else if (params.offset !== undefined) {
+      httpParams = httpParams.set('offset', params.offset.toString());
+    }
     if (params.sortBy !== undefined) {
       httpParams = httpParams.set('sortBy', params.sortBy);
     }
-    if (params.includeNsfw !== undefined) {
-      httpParams = httpParams.set('includeNsfw', params.includeNsfw.toString());
-    }
+    httpParams = httpParams.set(
+      'includeNsfw',
+      (params.includeNsfw ?? this.preferences.nsfwEnabled()).toString()
+    );
     if (params.fromFollowingOnly !== undefined) {
       httpParams = httpParams.set(
         'fromFollowingOnly',
@@ -57,15 +89,31 @@ export class FeedService {
     return this.http
       .get<FeedResponse>(this.baseUrl, { params: httpParams })
       .pipe(
-        tap((response) => this.updateState(response)),
+        tap((response) =>
+          append ? this.appendState(response) : this.updateState(response)
+        ),
         catchError((err) => {
           this.error.set(err.message || 'Failed to load feed');
           this.loading.set(false);
+          this.loadingMore.set(false);
           throw err;
-        })
+        }),
+        // A request cancelled by a fresh load must not leave the feed locked
+        finalize(() => (append ? this.loadingMore : this.loading).set(false))
       );
   }
 
+  /**
+   * Get the page after the posts already loaded: by cursor when the server
+   * sent one, by offset otherwise
+   */
+  getNextPage(params: FeedQueryParams = {}): Observable<FeedResponse> {
+    const cursor = this.nextCursor();
+    return this.getFeed(
+      cursor ? { ...params, cursor } : { ...params, offset: this.serverOffset }
+    );
+  }
+
   /**
    * Get personalized feed with POST request (advanced filtering)
    */
@@ -73,7 +121,12 @@ export class FeedService {
     this.loading.set(true);
     this.error.set(null);
 
-    return this.http.post<FeedResponse>(this.baseUrl, request).pipe(
+    const body: FeedPostRequest = {
+      ...request,
+      includeNsfw: request.includeNsfw ?? this.preferences.nsfwEnabled(),
+    };
+
+    return this.http.post<FeedResponse>(this.baseUrl, body).pipe(
       tap((response) => this.updateState(response)),
       catchError((err) => {
         this.error.set(err.message || 'Failed to load feed');
@@ -90,7 +143,9 @@ export class FeedService {
     this.loading.set(true);
     this.error.set(null);
 
-    const params = new HttpParams().set('limit', limit.toString());
+    const params = new HttpParams()
+      .set('limit', limit.toString())
+      .set('includeNsfw', this.preferences.nsfwEnabled().toString());
 
     return this.http
       .get<FeedResponse>(`${this.baseUrl}/hot`, { params })
@@ -111,7 +166,9 @@ export class FeedService {
     this.loading.set(true);
     this.error.set(null);
 
-    const params = new HttpParams().set('limit', limit.toString());
+    const params = new HttpParams()
+      .set('limit', limit.toString())
+      .set('includeNsfw', this.preferences.nsfwEnabled().toString());
 
     return this.http
       .get<FeedResponse>(`${this.baseUrl}/new`, { params })
@@ -135,7 +192,9 @@ export class FeedService {
     this.loading.set(true);
     this.error.set(null);
 
-    let params = new HttpParams().set('limit', limit.toString());
+    let params = new HttpParams()
+      .set('limit', limit.toString())
+      .set('includeNsfw', this.preferences.nsfwEnabled().toString());
     if (timePeriod !== 'all') {
       params = params.set('timePeriod', timePeriod);
     }
@@ -159,7 +218,9 @@ export class FeedService {
     this.loading.set(true);
     this.error.set(null);
 
-    const params = new HttpParams().set('limit', limit.toString());
+    const params = new HttpParams()
+      .set('limit', limit.toString())
+      .set('includeNsfw', this.preferences.nsfwEnabled().toString());
 
     return this.http
       .get<FeedResponse>(`${this.baseUrl}/discover`, { params })
@@ -177,24 +238,100 @@ export class FeedService {
    * Update state signals from response
    */
   private updateState(response: FeedResponse): void {
-    this.posts.set(response.posts);
+    this.loadedPosts.set(response.posts);
+    this.serverOffset = response.posts.length;
     this.suggestedUsers.set(response.suggestedUsers);
     this.algorithmInfo.set(response.algorithmInfo);
     this.totalAvailable.set(response.totalAvailable);
     this.hasMore.set(response.hasMore);
+    this.nextCursor.set(response.nextCursor ?? null);
     this.loading.set(false);
     this.error.set(null);
   }
 
+  /**
+   * Append a later page, skipping posts that shifted into it from an earlier one
+   */
+  private appendState(response: FeedResponse): void {
+    const known = new Set(this.loadedPosts().map((p) => p.id));
+    const fresh = response.posts.filter((p) => !known.has(p.id));
+
+    this.loadedPosts.update((posts) => [...posts, ...fresh]);
+    this.serverOffset += response.posts.length;
+    this.algorithmInfo.set(response.algorithmInfo);
+    this.totalAvailable.set(response.totalAvailable);
+    // An all-duplicate page means the server has nothing new to give
+    this.hasMore.set(response.hasMore && fresh.length > 0);
+    this.nextCursor.set(response.nextCursor ?? null);
+    this.loadingMore.set(false);
+    this.error.set(null);
+  }
+
+  private applyVoteChange({ id, score, upvoteCount, downvoteCount, userVote }: VoteChange): void {
+    this.updatePost(id, (p) => ({
+      ...p,
+      score,
+      upvoteCount: upvoteCount ?? p.upvoteCount,
+      downvoteCount: downvoteCount ?? p.downvoteCount,
+      userInteraction:
+        userVote === undefined
+          ? p.userInteraction
+          : {
+              ...p.userInteraction,
+              hasUpvoted: userVote === 'UPVOTE',
+              hasDownvoted: userVote === 'DOWNVOTE',
+            },
+    }));
+  }
+
+  /**
+   * Replace one loaded post, e.g. with live score and comment counts
+   */
+  updatePost(id: number, update: (post: FeedPost) => FeedPost): void {
+    if (!this.loadedPosts().some((p) => p.id === id)) return;
+
+    this.loadedPosts.update((posts) => posts.map((p) => (p.id === id ? update(p) : p)));
+  }
+
+  /**
+   * Put posts that arrived live at the top of the feed, skipping ones already shown
+   */
+  prependPosts(posts: FeedResponse['posts']): void {
+    const known = new Set(this.loadedPosts().map((p) => p.id));
+    const fresh = posts.filter((p) => !known.has(p.id));
+    if (fresh.length === 0) return;
+
+    this.loadedPosts.update((current) => [...fresh, ...current]);
+    this.totalAvailable.update((total) => total + fresh.length);
+  }
+
+  /**
+   * Remember where the home feed was scrolled to before opening a post
+   */
+  saveView(view: FeedViewState): void {
+    this.savedView = view;
+  }
+
+  /**
+   * Take (and forget) the remembered home feed view, if any
+   */
+  takeSavedView(): FeedViewState | null {
+    const view = this.savedView;
+    this.savedView = null;
+    return view;
+  }
+
   /**
    * Clear feed state
    */
   clearFeed(): void {
-    this.posts.set([]);
+    this.loadedPosts.set([]);
     this.suggestedUsers.set([]);
     this.algorithmInfo.set(null);
     this.totalAvailable.set(0);
     this.hasMore.set(false);
+    this.nextCursor.set(null);
+    this.serverOffset = 0;
     this.error.set(null);
   }
 }
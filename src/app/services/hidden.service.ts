@@ -0,0 +1,151 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { PaginatedResponse, PostResponse } from '../models/post.model';
+import { environment } from '../../environments/environment';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class HiddenService {
+  private readonly apiUrl = `${environment.apiBaseUrl}/api/hidden/posts`;
+  private readonly snackBar = inject(MatSnackBar);
+
+  // Signals for reactive state management
+  hiddenPosts = signal<PostResponse[]>([]);
+  currentPage = signal<number>(0);
+  totalPages = signal<number>(0);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  hasMore = computed(() => this.currentPage() + 1 < this.totalPages());
+
+  // Hides and unhides made this session, which win over the isHidden flag posts were loaded with
+  private hiddenState = signal<Record<number, boolean>>({});
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * GET /api/hidden/posts
+   * Get the current user's hidden posts, most recently hidden first
+   */
+  getHiddenPosts(page: number = 0, size: number = 20): Observable<PaginatedResponse<PostResponse>> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    const params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+
+    return this.http.get<PaginatedResponse<PostResponse>>(this.apiUrl, { params }).pipe(
+      tap((response) => {
+        this.hiddenPosts.set(
+          page === 0 ? response.content : [...this.hiddenPosts(), ...response.content],
+        );
+        this.currentPage.set(response.page);
+        this.totalPages.set(response.totalPages);
+        this.loading.set(false);
+      }),
+      catchError((error) => {
+        this.loading.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * POST /api/hidden/posts/{id}
+   * Hide a post from feeds and subreddit listings, with an Undo toast.
+   * The post disappears right away and comes back if the request fails.
+   */
+  hide(postId: number): Observable<void> {
+    return this.setHidden(postId, true).pipe(
+      tap(() => {
+        this.snackBar
+          .open('Post hidden', 'Undo', { duration: 5000 })
+          .onAction()
+          // A failed undo is already reported by setHidden
+          .subscribe(() => this.unhide(postId).subscribe({ error: () => {} }));
+      }),
+    );
+  }
+
+  /**
+   * DELETE /api/hidden/posts/{id}
+   * Show a hidden post again and drop it from the hidden list
+   */
+  unhide(postId: number): Observable<void> {
+    return this.setHidden(postId, false);
+  }
+
+  /**
+   * Whether a post is hidden, preferring changes made this session over the loaded flag
+   */
+  isHidden(postId: number, loaded: boolean = false): boolean {
+    return this.hiddenState()[postId] ?? loaded;
+  }
+
+  /**
+   * Utility: Clear error state
+   */
+  clearError(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Utility: Reset all state
+   */
+  resetState(): void {
+    this.hiddenPosts.set([]);
+    this.currentPage.set(0);
+    this.totalPages.set(0);
+    this.hiddenState.set({});
+    this.loading.set(false);
+    this.error.set(null);
+  }
+
+  private setHidden(postId: number, hidden: boolean): Observable<void> {
+    const previous = this.hiddenState()[postId];
+    this.hiddenState.update((state) => ({ ...state, [postId]: hidden }));
+
+    const url = `${this.apiUrl}/${postId}`;
+    const request = hidden ? this.http.post<void>(url, {}) : this.http.delete<void>(url);
+
+    return request.pipe(
+      tap(() => {
+        if (!hidden) {
+          this.hiddenPosts.update((posts) => posts.filter((p) => p.id !== postId));
+        }
+      }),
+      catchError((error) => {
+        this.hiddenState.update((state) => {
+          const { [postId]: _, ...rest } = state;
+          return previous === undefined ? rest : { ...rest, [postId]: previous };
+        });
+        this.handleError(error);
+        this.snackBar.open(
+          hidden ? 'Could not hide this post.' : 'Could not unhide this post.',
+          'Close',
+          { duration: 4000 },
+        );
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: any): void {
+    if (error.status === 401) {
+      this.error.set('You must be logged in to hide posts.');
+    } else if (error.status === 404) {
+      this.error.set('Post not found.');
+    } else if (error.status === 429) {
+      this.error.set('Rate limit exceeded. Please try again later.');
+    } else {
+      this.error.set('Something went wrong with your hidden posts. Please try again.');
+    }
+  }
+}
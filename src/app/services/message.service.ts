@@ -0,0 +1,282 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import {
+  Conversation,
+  DirectMessage,
+  SendMessageDto,
+  ReplyMessageDto,
+  UnreadMessageCount,
+} from '../models/message.model';
+import { PaginatedResponse } from '../models/post.model';
+import { AuthService } from './auth.service';
+import { WebSocketService } from './websocket.service';
+import { environment } from '../../environments/environment';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class MessageService {
+  private readonly apiUrl = `${environment.apiBaseUrl}/api/messages`;
+  private readonly authService = inject(AuthService);
+  private readonly wsService = inject(WebSocketService);
+
+  // Signals for reactive state management
+  conversations = signal<Conversation[]>([]);
+  activeConversationId = signal<number | null>(null);
+  messages = signal<DirectMessage[]>([]);
+  unreadCount = signal<number>(0);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  constructor(private http: HttpClient) {
+    // New messages arrive on the user's message queue
+    this.wsService.messages$.subscribe((message) => this.handleIncomingMessage(message));
+  }
+
+  /**
+   * GET /api/messages/conversations
+   * Get the current user's conversations, most recently active first
+   */
+  getConversations(
+    page: number = 0,
+    size: number = 20,
+  ): Observable<PaginatedResponse<Conversation>> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    const params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+
+    return this.http
+      .get<PaginatedResponse<Conversation>>(`${this.apiUrl}/conversations`, { params })
+      .pipe(
+        tap((response) => {
+          this.conversations.set(
+            page === 0 ? response.content : [...this.conversations(), ...response.content],
+          );
+          this.loading.set(false);
+        }),
+        catchError((error) => {
+          this.loading.set(false);
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * GET /api/messages/conversations/{conversationId}
+   * Get the messages in a conversation, oldest first
+   */
+  getConversationMessages(
+    conversationId: number,
+    page: number = 0,
+    size: number = 50,
+  ): Observable<PaginatedResponse<DirectMessage>> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    const params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+
+    return this.http
+      .get<PaginatedResponse<DirectMessage>>(`${this.apiUrl}/conversations/${conversationId}`, {
+        params,
+      })
+      .pipe(
+        tap((response) => {
+          this.activeConversationId.set(conversationId);
+          this.messages.set(response.content);
+          this.loading.set(false);
+        }),
+        catchError((error) => {
+          this.loading.set(false);
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * POST /api/messages
+   * Send a message to a user, starting a conversation if none exists
+   */
+  sendMessage(data: SendMessageDto): Observable<DirectMessage> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http.post<DirectMessage>(this.apiUrl, data).pipe(
+      tap((message) => {
+        this.upsertConversation(message, false);
+        this.loading.set(false);
+      }),
+      catchError((error) => {
+        this.loading.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * POST /api/messages/conversations/{conversationId}/reply
+   * Reply within an existing conversation
+   */
+  reply(conversationId: number, content: string): Observable<DirectMessage> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    const request: ReplyMessageDto = { content };
+
+    return this.http
+      .post<DirectMessage>(`${this.apiUrl}/conversations/${conversationId}/reply`, request)
+      .pipe(
+        tap((message) => {
+          this.appendMessage(message);
+          this.upsertConversation(message, false);
+          this.loading.set(false);
+        }),
+        catchError((error) => {
+          this.loading.set(false);
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * POST /api/messages/conversations/{conversationId}/read
+   * Mark every message in a conversation as read
+   */
+  markConversationRead(conversationId: number): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/conversations/${conversationId}/read`, {}).pipe(
+      tap(() => {
+        const conversation = this.conversations().find((c) => c.id === conversationId);
+        if (conversation) {
+          this.unreadCount.update((count) => Math.max(0, count - conversation.unreadCount));
+          this.conversations.update((list) =>
+            list.map((c) => (c.id === conversationId ? { ...c, unreadCount: 0 } : c)),
+          );
+        }
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * GET /api/messages/unread-count
+   * Get the number of unread messages across all conversations
+   */
+  getUnreadCount(): Observable<UnreadMessageCount> {
+    return this.http.get<UnreadMessageCount>(`${this.apiUrl}/unread-count`).pipe(
+      tap((response) => {
+        this.unreadCount.set(response.count);
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Leave the thread view; incoming messages count as unread again
+   */
+  closeConversation(): void {
+    this.activeConversationId.set(null);
+    this.messages.set([]);
+  }
+
+  /**
+   * Utility: Clear error state
+   */
+  clearError(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Utility: Reset all state
+   */
+  resetState(): void {
+    this.conversations.set([]);
+    this.activeConversationId.set(null);
+    this.messages.set([]);
+    this.unreadCount.set(0);
+    this.loading.set(false);
+    this.error.set(null);
+  }
+
+  private handleIncomingMessage(message: DirectMessage): void {
+    const isOwn = message.sender.id === this.authService.currentUser()?.id;
+    const isActive = message.conversationId === this.activeConversationId();
+
+    if (isActive) {
+      this.appendMessage(message);
+    }
+
+    const countsAsUnread = !isOwn && !isActive;
+    this.upsertConversation(message, countsAsUnread);
+    if (countsAsUnread) {
+      this.unreadCount.update((count) => count + 1);
+    } else if (isActive && !isOwn) {
+      this.markConversationRead(message.conversationId).subscribe({
+        error: (err) => console.error('Error marking conversation read:', err),
+      });
+    }
+  }
+
+  private appendMessage(message: DirectMessage): void {
+    if (this.messages().some((m) => m.id === message.id)) return;
+    this.messages.update((list) => [...list, message]);
+  }
+
+  private upsertConversation(message: DirectMessage, incrementUnread: boolean): void {
+    const currentUserId = this.authService.currentUser()?.id;
+    const participant = message.sender.id === currentUserId ? message.recipient : message.sender;
+
+    const existing = this.conversations().find((c) => c.id === message.conversationId);
+    const updated: Conversation = existing
+      ? {
+          ...existing,
+          lastMessage: message,
+          unreadCount: existing.unreadCount + (incrementUnread ? 1 : 0),
+          updatedAt: message.createdAt,
+        }
+      : {
+          id: message.conversationId,
+          participant,
+          subject: message.subject,
+          lastMessage: message,
+          unreadCount: incrementUnread ? 1 : 0,
+          updatedAt: message.createdAt,
+        };
+
+    // Most recently active conversation goes first
+    this.conversations.update((list) => [
+      updated,
+      ...list.filter((c) => c.id !== message.conversationId),
+    ]);
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: any): void {
+    if (error.status === 400) {
+      this.error.set('Validation failed. Please check your message.');
+    } else if (error.status === 401) {
+      this.error.set('You must be logged in to send messages.');
+    } else if (error.status === 403) {
+      this.error.set('You cannot message this user.');
+    } else if (error.status === 404) {
+      this.error.set('User or conversation not found.');
+    } else if (error.status === 429) {
+      this.error.set('You are sending messages too quickly. Please wait a moment.');
+    } else {
+      this.error.set('An unexpected error occurred. Please try again.');
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { UnreadNotificationCount, UserNotification } from '../models/notification.model';
+import { PaginatedResponse } from '../models/post.model';
+import { WebSocketService } from './websocket.service';
+import { environment } from '../../environments/environment';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class NotificationService {
+  private readonly apiUrl = `${environment.apiBaseUrl}/api/notifications`;
+  private readonly wsService = inject(WebSocketService);
+
+  // Signals for reactive state management
+  notifications = signal<UserNotification[]>([]);
+  unreadCount = signal<number>(0);
+  currentPage = signal<number>(0);
+  totalPages = signal<number>(0);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  hasMore = computed(() => this.currentPage() + 1 < this.totalPages());
+
+  constructor(private http: HttpClient) {
+    // Live pushes arrive on the user's notification queue
+    this.wsService.notifications$.subscribe((notification) =>
+      this.handleIncomingNotification(notification),
+    );
+  }
+
+  /**
+   * GET /api/notifications
+   * Get the current user's notification history, newest first
+   */
+  getNotifications(
+    page: number = 0,
+    size: number = 20,
+    unreadOnly: boolean = false,
+  ): Observable<PaginatedResponse<UserNotification>> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    let params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+    if (unreadOnly) {
+      params = params.set('unreadOnly', 'true');
+    }
+
+    return this.http.get<PaginatedResponse<UserNotification>>(this.apiUrl, { params }).pipe(
+      tap((response) => {
+        if (page === 0) {
+          this.notifications.set(response.content);
+        } else {
+          // Live pushes may already have added some of these
+          const known = new Set(this.notifications().map((n) => n.id));
+          this.notifications.update((list) => [
+            ...list,
+            ...response.content.filter((n) => !known.has(n.id)),
+          ]);
+        }
+        this.currentPage.set(response.page);
+        this.totalPages.set(response.totalPages);
+        this.loading.set(false);
+      }),
+      catchError((error) => {
+        this.loading.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * GET /api/notifications/unread-count
+   * Get the number of unread notifications
+   */
+  getUnreadCount(): Observable<UnreadNotificationCount> {
+    return this.http.get<UnreadNotificationCount>(`${this.apiUrl}/unread-count`).pipe(
+      tap((response) => {
+        this.unreadCount.set(response.count);
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * POST /api/notifications/{notificationId}/read
+   * Mark a single notification as read
+   */
+  markAsRead(notificationId: number): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/${notificationId}/read`, {}).pipe(
+      tap(() => {
+        const notification = this.notifications().find((n) => n.id === notificationId);
+        if (notification && !notification.isRead) {
+          this.unreadCount.update((count) => Math.max(0, count - 1));
+        }
+        this.notifications.update((list) =>
+          list.map((n) => (n.id === notificationId ? { ...n, isRead: true } : n)),
+        );
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * POST /api/notifications/read-all
+   * Mark every notification as read
+   */
+  markAllAsRead(): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/read-all`, {}).pipe(
+      tap(() => {
+        this.notifications.update((list) => list.map((n) => ({ ...n, isRead: true })));
+        this.unreadCount.set(0);
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * DELETE /api/notifications/{notificationId}
+   * Delete a notification
+   */
+  deleteNotification(notificationId: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${notificationId}`).pipe(
+      tap(() => {
+        const notification = this.notifications().find((n) => n.id === notificationId);
+        if (notification && !notification.isRead) {
+          this.unreadCount.update((count) => Math.max(0, count - 1));
+        }
+        this.notifications.update((list) => list.filter((n) => n.id !== notificationId));
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * DELETE /api/notifications
+   * Delete every notification
+   */
+  clearAll(): Observable<void> {
+    return this.http.delete<void>(this.apiUrl).pipe(
+      tap(() => {
+        this.notifications.set([]);
+        this.unreadCount.set(0);
+        this.currentPage.set(0);
+        this.totalPages.set(0);
+      }),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Utility: Clear error state
+   */
+  clearError(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Utility: Reset all state
+   */
+  resetState(): void {
+    this.notifications.set([]);
+    this.unreadCount.set(0);
+    this.currentPage.set(0);
+    this.totalPages.set(0);
+    this.loading.set(false);
+    this.error.set(null);
+  }
+
+  private handleIncomingNotification(notification: UserNotification): void {
+    if (this.notifications().some((n) => n.id === notification.id)) return;
+
+    this.notifications.update((list) => [notification, ...list]);
+    if (!notification.isRead) {
+      this.unreadCount.update((count) => count + 1);
+    }
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: any): void {
+    if (error.status === 401) {
+      this.error.set('You must be logged in to view notifications.');
+    } else if (error.status === 404) {
+      this.error.set('Notification not found.');
+    } else {
+      this.error.set('An unexpected error occurred. Please try again.');
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { Poll, PollResult, PollVoteRequest } from '../models/poll.model';
+import { environment } from '../../environments/environment';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PollService {
+  private readonly apiUrl = `${environment.apiBaseUrl}/api/polls`;
+
+  // Signals for reactive state management
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * GET /api/polls/{postId}
+   * Get the poll attached to a post, including the current user's votes
+   */
+  getPoll(postId: number): Observable<Poll> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http.get<Poll>(`${this.apiUrl}/${postId}`).pipe(
+      tap(() => {
+        this.loading.set(false);
+      }),
+      catchError((error) => {
+        this.loading.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * POST /api/polls/{postId}/vote
+   * Cast a vote. Single-choice polls accept exactly one option id.
+   */
+  vote(postId: number, optionIds: number[]): Observable<PollResult> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    const request: PollVoteRequest = { optionIds };
+
+    return this.http.post<PollResult>(`${this.apiUrl}/${postId}/vote`, request).pipe(
+      tap(() => {
+        this.loading.set(false);
+      }),
+      catchError((error) => {
+        this.loading.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Utility: Clear error state
+   */
+  clearError(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: any): void {
+    if (error.status === 400) {
+      this.error.set('Invalid poll vote. Please check your selection.');
+    } else if (error.status === 401) {
+      this.error.set('You must be logged in to vote.');
+    } else if (error.status === 404) {
+      this.error.set('Poll not found.');
+    } else if (error.status === 409) {
+      this.error.set('You have already voted in this poll.');
+    } else if (error.status === 410) {
+      this.error.set('This poll is closed.');
+    } else {
+      this.error.set('An unexpected error occurred. Please try again.');
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable, signal, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
+import { Observable, of, throwError } from 'rxjs';
 import { map, catchError, tap } from 'rxjs/operators';
 import {
   Post,
@@ -8,9 +8,12 @@ import {
   CreatePostDto,
   UpdatePostDto,
   PaginatedResponse,
+  PostSort,
+  TopTimePeriod,
+  VoteState,
   VoteType,
 } from '../models/post.model';
-import { VoteService } from './vote.service';
+import { VoteChange, VoteStoreService } from './vote-store.service';
 import { environment } from '../../environments/environment';
 
 @Injectable({
@@ -18,7 +21,7 @@ import { environment } from '../../environments/environment';
 })
 export class PostService {
   private readonly apiUrl = `${environment.apiBaseUrl}/api/posts`;
-  private readonly voteService = inject(VoteService);
+  private readonly voteStore = inject(VoteStoreService);
 
   // Signals for reactive state management
   posts = signal<Post[]>([]);
@@ -26,7 +29,9 @@ export class PostService {
   error = signal<string | null>(null);
   currentPost = signal<Post | null>(null);
 
-  constructor(private http: HttpClient) {}
+  constructor(private http: HttpClient) {
+    this.voteStore.changesFor('POST').subscribe((change) => this.applyVoteChange(change));
+  }
 
   /**
    * POST /api/posts
@@ -71,6 +76,25 @@ export class PostService {
     );
   }
 
+  /**
+   * GET /api/posts/subreddit/{subredditId}?sort=new
+   * Fetch freshly announced posts from the subreddit's newest page, which unlike
+   * GET /api/posts/{postId} is not counted as a view; ids not on that page are skipped
+   */
+  getNewPostsByIds(subredditId: number, postIds: number[]): Observable<PostResponse[]> {
+    if (postIds.length === 0) return of([]);
+
+    const wanted = new Set(postIds);
+    const params = new HttpParams()
+      .set('page', '0')
+      .set('size', postIds.length.toString())
+      .set('sort', 'new');
+
+    return this.http
+      .get<PaginatedResponse<PostResponse>>(`${this.apiUrl}/subreddit/${subredditId}`, { params })
+      .pipe(map((response) => response.content.filter((post) => wanted.has(post.id))));
+  }
+
   /**
    * GET /api/posts/hot
    * Get hot posts sorted by score
@@ -142,17 +166,26 @@ export class PostService {
 
   /**
    * GET /api/posts/subreddit/{subredditId}
-   * Get posts for a specific subreddit
+   * Get posts for a specific subreddit, sorted server-side.
+   * `timePeriod` only applies to the "top" sort.
    */
   getSubredditPosts(
     subredditId: number,
     page: number = 0,
     size: number = 20,
+    sort: PostSort = 'hot',
+    timePeriod: TopTimePeriod = 'all',
   ): Observable<PaginatedResponse<PostResponse>> {
     this.loading.set(true);
     this.error.set(null);
 
-    const params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+    let params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString())
+      .set('sort', sort);
+    if (sort === 'top') {
+      params = params.set('timePeriod', timePeriod);
+    }
 
     return this.http
       .get<PaginatedResponse<PostResponse>>(`${this.apiUrl}/subreddit/${subredditId}`, { params })
@@ -306,109 +339,11 @@ export class PostService {
   }
 
   /**
-   * Vote on a post using the /api/votes/post endpoint.
-   * Toggle-based voting: first vote creates, same vote removes, opposite vote flips.
-   * API returns 200 OK with empty body, so we calculate new state client-side.
+   * Vote on a post. The new score and arrow show immediately: VoteStoreService sends
+   * the request, coalescing rapid clicks, and rolls back if it fails.
    */
-  votePost(postId: number, voteType: VoteType | null): Observable<Post> {
-    this.loading.set(true);
-    this.error.set(null);
-
-    // Get current post state for calculations
-    const currentPost = this.posts().find((p) => p.id === postId) || this.currentPost();
-    if (!currentPost) {
-      return throwError(() => new Error('Post not found'));
-    }
-
-    const currentUserVote = currentPost.userVote;
-
-    // Calculate the new state based on the voting action
-    let newUserVote: VoteType | null;
-    let scoreDelta = 0;
-    let upvoteDelta = 0;
-    let downvoteDelta = 0;
-
-    if (voteType === null) {
-      // Removing vote
-      newUserVote = null;
-      if (currentUserVote === 'UPVOTE') {
-        scoreDelta = -1;
-        upvoteDelta = -1;
-      } else if (currentUserVote === 'DOWNVOTE') {
-        scoreDelta = +1;
-        downvoteDelta = -1;
-      }
-    } else if (currentUserVote === voteType) {
-      // Toggle off: same vote clicked again
-      newUserVote = null;
-      if (voteType === 'UPVOTE') {
-        scoreDelta = -1;
-        upvoteDelta = -1;
-      } else {
-        scoreDelta = +1;
-        downvoteDelta = -1;
-      }
-    } else if (currentUserVote === null) {
-      // New vote
-      newUserVote = voteType;
-      if (voteType === 'UPVOTE') {
-        scoreDelta = +1;
-        upvoteDelta = +1;
-      } else {
-        scoreDelta = -1;
-        downvoteDelta = +1;
-      }
-    } else {
-      // Flip vote (opposite direction)
-      newUserVote = voteType;
-      if (voteType === 'UPVOTE') {
-        // Was DOWNVOTE, now UPVOTE
-        scoreDelta = +2;
-        upvoteDelta = +1;
-        downvoteDelta = -1;
-      } else {
-        // Was UPVOTE, now DOWNVOTE
-        scoreDelta = -2;
-        upvoteDelta = -1;
-        downvoteDelta = +1;
-      }
-    }
-
-    // Calculate new values
-    const newScore = currentPost.score + scoreDelta;
-    const newUpvoteCount = currentPost.upvoteCount + upvoteDelta;
-    const newDownvoteCount = currentPost.downvoteCount + downvoteDelta;
-
-    // Create updated post object
-    const updatedPost: Post = {
-      ...currentPost,
-      score: newScore,
-      upvoteCount: newUpvoteCount,
-      downvoteCount: newDownvoteCount,
-      userVote: newUserVote,
-    };
-
-    return this.voteService.votePost(postId, voteType).pipe(
-      map(() => {
-        // Update local state with calculated values
-        const currentPosts = this.posts();
-        const index = currentPosts.findIndex((p) => p.id === postId);
-        if (index !== -1) {
-          currentPosts[index] = updatedPost;
-          this.posts.set([...currentPosts]);
-        }
-        if (this.currentPost()?.id === postId) {
-          this.currentPost.set(updatedPost);
-        }
-        this.loading.set(false);
-        return updatedPost;
-      }),
-      catchError((error) => {
-        this.loading.set(false);
-        this.handleError(error);
-        return throwError(() => error);
-      }),
-    );
+  votePost(post: VoteState & { id: number }, voteType: VoteType | null): void {
+    this.voteStore.vote('POST', post.id, post, voteType);
   }
 
   /**
@@ -428,6 +363,18 @@ export class PostService {
     this.error.set(null);
   }
 
+  private applyVoteChange({ target, id, ...votes }: VoteChange): void {
+    const apply = (post: Post): Post => ({ ...post, ...votes });
+
+    if (this.posts().some((p) => p.id === id)) {
+      this.posts.update((posts) => posts.map((p) => (p.id === id ? apply(p) : p)));
+    }
+    const current = this.currentPost();
+    if (current?.id === id) {
+      this.currentPost.set(apply(current));
+    }
+  }
+
   /**
    * Error handler
    */
@@ -0,0 +1,120 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
+import { DEFAULT_USER_PREFERENCES, UserPreferences } from '../models/post.model';
+import { environment } from '../../environments/environment';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PreferencesService {
+  private readonly apiUrl = `${environment.apiBaseUrl}/api/users/me/preferences`;
+
+  // Signals for reactive state management
+  preferences = signal<UserPreferences>({ ...DEFAULT_USER_PREFERENCES });
+  loaded = signal<boolean>(false);
+  loading = signal<boolean>(false);
+  saving = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  // Individual preferences read by the feed and listing pages
+  compactView = computed(() => this.preferences().compactView);
+  nsfwEnabled = computed(() => this.preferences().nsfwEnabled);
+  showThumbnails = computed(() => this.preferences().showThumbnails);
+  autoplayEnabled = computed(() => this.preferences().autoplayEnabled);
+  commentSort = computed(() => this.preferences().commentSort);
+  collapseBelowScore = computed(() => this.preferences().collapseBelowScore);
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * GET /api/users/me/preferences
+   * Load the current user's preferences
+   */
+  loadPreferences(): Observable<UserPreferences> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http.get<UserPreferences>(this.apiUrl).pipe(
+      tap((preferences) => {
+        // Fill in any preference the backend does not know about yet
+        this.preferences.set({ ...DEFAULT_USER_PREFERENCES, ...preferences });
+        this.loaded.set(true);
+        this.loading.set(false);
+      }),
+      catchError((error) => {
+        this.loading.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * PUT /api/users/me/preferences
+   * Save the current user's preferences
+   */
+  savePreferences(preferences: UserPreferences): Observable<UserPreferences> {
+    this.saving.set(true);
+    this.error.set(null);
+
+    return this.http.put<UserPreferences>(this.apiUrl, preferences).pipe(
+      tap((saved) => {
+        this.preferences.set({ ...DEFAULT_USER_PREFERENCES, ...saved });
+        this.loaded.set(true);
+        this.saving.set(false);
+      }),
+      catchError((error) => {
+        this.saving.set(false);
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * PUT /api/users/me/preferences
+   * Save a partial change on top of the server state, loading it first
+   * if it hasn't arrived yet so unrelated settings are never reset to
+   * their defaults
+   */
+  updatePreferences(changes: Partial<UserPreferences>): Observable<UserPreferences> {
+    const current$ = this.loaded() ? of(this.preferences()) : this.loadPreferences();
+
+    return current$.pipe(
+      switchMap((current) => this.savePreferences({ ...current, ...changes })),
+    );
+  }
+
+  /**
+   * Utility: Clear error state
+   */
+  clearError(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Utility: Reset all state (back to defaults, e.g. on logout)
+   */
+  resetState(): void {
+    this.preferences.set({ ...DEFAULT_USER_PREFERENCES });
+    this.loaded.set(false);
+    this.loading.set(false);
+    this.saving.set(false);
+    this.error.set(null);
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: any): void {
+    if (error.status === 400) {
+      this.error.set('Invalid preferences. Please check your settings.');
+    } else if (error.status === 401) {
+      this.error.set('You must be logged in to change settings.');
+    } else {
+      this.error.set('Failed to sync your settings. Please try again.');
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { PaginatedResponse } from '../models/post.model';
+import { SavedComment, SavedFilters, SavedItemType, SavedPost } from '../models/saved.model';
+import { environment } from '../../environments/environment';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SavedService {
+  private readonly apiUrl = `${environment.apiBaseUrl}/api/saved`;
+  private readonly snackBar = inject(MatSnackBar);
+
+  // Signals for reactive state management
+  savedPosts = signal<SavedPost[]>([]);
+  savedComments = signal<SavedComment[]>([]);
+  postsPage = signal<number>(0);
+  postsTotalPages = signal<number>(0);
+  commentsPage = signal<number>(0);
+  commentsTotalPages = signal<number>(0);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  hasMorePosts = computed(() => this.postsPage() + 1 < this.postsTotalPages());
+  hasMoreComments = computed(() => this.commentsPage() + 1 < this.commentsTotalPages());
+
+  // Saves and unsaves made this session, which win over the isSaved flag items were loaded with
+  private savedState = signal<Record<string, boolean>>({});
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * GET /api/saved/posts
+   * Get the current user's saved posts, most recently saved first
+   */
+  getSavedPosts(
+    page: number = 0,
+    size: number = 20,
+    filters: SavedFilters = {},
+  ): Observable<PaginatedResponse<SavedPost>> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http
+      .get<PaginatedResponse<SavedPost>>(`${this.apiUrl}/posts`, {
+        params: this.listParams(page, size, filters),
+      })
+      .pipe(
+        tap((response) => {
+          this.savedPosts.set(
+            page === 0 ? response.content : [...this.savedPosts(), ...response.content],
+          );
+          this.postsPage.set(response.page);
+          this.postsTotalPages.set(response.totalPages);
+          this.loading.set(false);
+        }),
+        catchError((error) => {
+          this.loading.set(false);
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * GET /api/saved/comments
+   * Get the current user's saved comments, most recently saved first
+   */
+  getSavedComments(
+    page: number = 0,
+    size: number = 20,
+    filters: SavedFilters = {},
+  ): Observable<PaginatedResponse<SavedComment>> {
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http
+      .get<PaginatedResponse<SavedComment>>(`${this.apiUrl}/comments`, {
+        params: this.listParams(page, size, filters),
+      })
+      .pipe(
+        tap((response) => {
+          this.savedComments.set(
+            page === 0 ? response.content : [...this.savedComments(), ...response.content],
+          );
+          this.commentsPage.set(response.page);
+          this.commentsTotalPages.set(response.totalPages);
+          this.loading.set(false);
+        }),
+        catchError((error) => {
+          this.loading.set(false);
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * POST /api/saved/posts/{id} | POST /api/saved/comments/{id}
+   * Save a post or comment. Shows as saved right away and reverts if the request fails.
+   */
+  save(type: SavedItemType, id: number): Observable<void> {
+    return this.setSaved(type, id, true);
+  }
+
+  /**
+   * DELETE /api/saved/posts/{id} | DELETE /api/saved/comments/{id}
+   * Unsave a post or comment and drop it from the saved listings
+   */
+  unsave(type: SavedItemType, id: number): Observable<void> {
+    return this.setSaved(type, id, false);
+  }
+
+  /**
+   * Whether an item is saved, preferring changes made this session over the loaded flag
+   */
+  isSaved(type: SavedItemType, id: number, loaded: boolean = false): boolean {
+    return this.savedState()[this.key(type, id)] ?? loaded;
+  }
+
+  /**
+   * Utility: Clear error state
+   */
+  clearError(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Utility: Reset all state
+   */
+  resetState(): void {
+    this.savedPosts.set([]);
+    this.savedComments.set([]);
+    this.postsPage.set(0);
+    this.postsTotalPages.set(0);
+    this.commentsPage.set(0);
+    this.commentsTotalPages.set(0);
+    this.savedState.set({});
+    this.loading.set(false);
+    this.error.set(null);
+  }
+
+  private setSaved(type: SavedItemType, id: number, saved: boolean): Observable<void> {
+    const key = this.key(type, id);
+    const previous = this.savedState()[key];
+    this.savedState.update((state) => ({ ...state, [key]: saved }));
+
+    const url = `${this.apiUrl}/${type}s/${id}`;
+    const request = saved ? this.http.post<void>(url, {}) : this.http.delete<void>(url);
+
+    return request.pipe(
+      tap(() => {
+        if (saved) return;
+        if (type === 'post') {
+          this.savedPosts.update((posts) => posts.filter((p) => p.id !== id));
+        } else {
+          this.savedComments.update((comments) => comments.filter((c) => c.id !== id));
+        }
+      }),
+      catchError((error) => {
+        this.savedState.update((state) => {
+          const { [key]: _, ...rest } = state;
+          return previous === undefined ? rest : { ...rest, [key]: previous };
+        });
+        this.handleError(error);
+        this.snackBar.open(
+          saved ? `Could not save this ${type}.` : `Could not unsave this ${type}.`,
+          'Close',
+          { duration: 4000 },
+        );
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  private listParams(page: number, size: number, filters: SavedFilters): HttpParams {
+    let params = new HttpParams().set('page', page.toString()).set('size', size.toString());
+    if (filters.subreddit) {
+      params = params.set('subreddit', filters.subreddit);
+    }
+    if (filters.q) {
+      params = params.set('q', filters.q);
+    }
+    return params;
+  }
+
+  private key(type: SavedItemType, id: number): string {
+    return `${type}:${id}`;
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: any): void {
+    if (error.status === 401) {
+      this.error.set('You must be logged in to save posts and comments.');
+    } else if (error.status === 404) {
+      this.error.set('Post or comment not found.');
+    } else if (error.status === 429) {
+      this.error.set('Rate limit exceeded. Please try again later.');
+    } else {
+      this.error.set('Something went wrong with your saved items. Please try again.');
+    }
+  }
+}
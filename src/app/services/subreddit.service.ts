@@ -1,13 +1,16 @@
 import { Injectable, signal } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, tap } from 'rxjs/operators';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
 import {
   SubredditResponse,
   CreateSubredditDto,
   UpdateSubredditDto,
+  CreateRuleDto,
+  UpdateRuleDto,
   PaginatedSubredditsResponse,
 } from '../models/subreddit.model';
+import { getErrorStatus, Rule } from '../models/post.model';
 import { environment } from '../../environments/environment';
 
 @Injectable({
@@ -94,6 +97,18 @@ export class SubredditService {
     );
   }
 
+  /**
+   * GET /api/subreddits/r/{name}
+   * Check whether a name is free: a 404 means no subreddit uses it yet.
+   * Leaves the shared loading/error state alone, since it runs while typing.
+   */
+  checkNameAvailability(name: string): Observable<boolean> {
+    return this.http.get<SubredditResponse>(`${this.apiUrl}/r/${name}`).pipe(
+      map(() => false),
+      catchError((error) => (getErrorStatus(error) === 404 ? of(true) : throwError(() => error))),
+    );
+  }
+
   /**
    * GET /api/subreddits/trending
    * Get trending subreddits
@@ -309,6 +324,87 @@ export class SubredditService {
     );
   }
 
+  /**
+   * GET /api/subreddits/{subredditId}/rules
+   * Get a subreddit's rules, ordered by priority
+   */
+  getRules(subredditId: number): Observable<Rule[]> {
+    // Read-only lookup: failures stay with the caller, not the page-wide error
+    return this.http
+      .get<Rule[]>(`${this.apiUrl}/${subredditId}/rules`)
+      .pipe(tap((rules) => this.setCurrentRules(subredditId, () => rules)));
+  }
+
+  /**
+   * POST /api/subreddits/{subredditId}/rules
+   * Add a rule (moderator only)
+   */
+  createRule(subredditId: number, data: CreateRuleDto): Observable<Rule> {
+    this.error.set(null);
+
+    return this.http.post<Rule>(`${this.apiUrl}/${subredditId}/rules`, data).pipe(
+      tap((rule) => this.setCurrentRules(subredditId, (rules) => [...rules, rule])),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * PUT /api/subreddits/{subredditId}/rules/{ruleId}
+   * Edit a rule's title or description (moderator only)
+   */
+  updateRule(subredditId: number, ruleId: string, data: UpdateRuleDto): Observable<Rule> {
+    this.error.set(null);
+
+    return this.http.put<Rule>(`${this.apiUrl}/${subredditId}/rules/${ruleId}`, data).pipe(
+      tap((rule) =>
+        this.setCurrentRules(subredditId, (rules) => rules.map((r) => (r.id === rule.id ? rule : r))),
+      ),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * DELETE /api/subreddits/{subredditId}/rules/{ruleId}
+   * Remove a rule (moderator only); the server renumbers the rest
+   */
+  deleteRule(subredditId: number, ruleId: string): Observable<void> {
+    this.error.set(null);
+
+    return this.http.delete<void>(`${this.apiUrl}/${subredditId}/rules/${ruleId}`).pipe(
+      tap(() =>
+        this.setCurrentRules(subredditId, (rules) =>
+          rules.filter((r) => r.id !== ruleId).map((r, index) => ({ ...r, priority: index + 1 })),
+        ),
+      ),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * PUT /api/subreddits/{subredditId}/rules/order
+   * Set rule priorities from the given order (moderator only)
+   */
+  reorderRules(subredditId: number, ruleIds: string[]): Observable<Rule[]> {
+    this.error.set(null);
+
+    return this.http.put<Rule[]>(`${this.apiUrl}/${subredditId}/rules/order`, { ruleIds }).pipe(
+      tap((rules) => this.setCurrentRules(subredditId, () => rules)),
+      catchError((error) => {
+        this.handleError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+
   /**
    * Utility: Clear error state
    */
@@ -327,6 +423,13 @@ export class SubredditService {
     this.error.set(null);
   }
 
+  private setCurrentRules(subredditId: number, update: (rules: Rule[]) => Rule[]): void {
+    const current = this.currentSubreddit();
+    if (current && current.id === subredditId) {
+      this.currentSubreddit.set({ ...current, rules: update(current.rules ?? []) });
+    }
+  }
+
   /**
    * Error handler
    */
@@ -0,0 +1,151 @@
+import { TestBed } from '@angular/core/testing';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Subject, of, throwError } from 'rxjs';
+import { VoteState } from '../models/post.model';
+import { WebSocketVoteUpdate } from '../models/websocket.model';
+import { VoteChange, VoteStoreService } from './vote-store.service';
+import { VoteService } from './vote.service';
+import { WebSocketService } from './websocket.service';
+
+describe('VoteStoreService', () => {
+  const post: VoteState = { score: 10, upvoteCount: 12, downvoteCount: 2, userVote: null };
+
+  let store: VoteStoreService;
+  let voteUpdates: Subject<WebSocketVoteUpdate>;
+  let votePost: ReturnType<typeof vi.fn>;
+  let openSnackBar: ReturnType<typeof vi.fn>;
+  let changes: VoteChange[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    voteUpdates = new Subject();
+    votePost = vi.fn(() => of({}));
+    openSnackBar = vi.fn();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: VoteService, useValue: { votePost, voteComment: vi.fn(() => of({})) } },
+        { provide: WebSocketService, useValue: { voteUpdates$: voteUpdates.asObservable() } },
+        { provide: MatSnackBar, useValue: { open: openSnackBar } },
+      ],
+    });
+    store = TestBed.inject(VoteStoreService);
+    changes = [];
+    store.changes$.subscribe((change) => changes.push(change));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies a vote before the request is sent', () => {
+    store.vote('POST', 1, post, 'UPVOTE');
+
+    expect(changes.at(-1)).toEqual({
+      target: 'POST',
+      id: 1,
+      score: 11,
+      upvoteCount: 13,
+      downvoteCount: 2,
+      userVote: 'UPVOTE',
+    });
+    expect(votePost).not.toHaveBeenCalled();
+  });
+
+  it('coalesces rapid toggles into one request for the final vote', () => {
+    store.vote('POST', 1, post, 'UPVOTE');
+    store.vote('POST', 1, post, 'DOWNVOTE');
+    store.vote('POST', 1, post, 'UPVOTE');
+    vi.advanceTimersByTime(400);
+
+    expect(votePost).toHaveBeenCalledTimes(1);
+    expect(votePost).toHaveBeenCalledWith(1, 'UPVOTE');
+    expect(changes.at(-1)?.score).toBe(11);
+  });
+
+  it('sends nothing when toggles end where they started', () => {
+    store.vote('POST', 1, post, 'UPVOTE');
+    store.vote('POST', 1, post, null);
+    vi.advanceTimersByTime(400);
+
+    expect(votePost).not.toHaveBeenCalled();
+    expect(changes.at(-1)?.score).toBe(10);
+  });
+
+  it('removes a vote by repeating it, since the API toggles', () => {
+    store.vote('POST', 1, { ...post, score: 11, userVote: 'UPVOTE' }, null);
+    vi.advanceTimersByTime(400);
+
+    expect(votePost).toHaveBeenCalledWith(1, 'UPVOTE');
+  });
+
+  it('keeps one request in flight and sends later changes after it', () => {
+    const response = new Subject<object>();
+    votePost.mockReturnValueOnce(response);
+
+    store.vote('POST', 1, post, 'UPVOTE');
+    vi.advanceTimersByTime(400);
+    store.vote('POST', 1, post, 'DOWNVOTE');
+    vi.advanceTimersByTime(400);
+    expect(votePost).toHaveBeenCalledTimes(1);
+
+    response.next({});
+    response.complete();
+    expect(votePost).toHaveBeenCalledTimes(2);
+    expect(votePost).toHaveBeenLastCalledWith(1, 'DOWNVOTE');
+  });
+
+  it('rolls back and shows a toast when the request fails', () => {
+    votePost.mockReturnValueOnce(throwError(() => new Error('offline')));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    store.vote('POST', 1, post, 'UPVOTE');
+    vi.advanceTimersByTime(400);
+
+    expect(changes.at(-1)).toMatchObject({ score: 10, upvoteCount: 12, userVote: null });
+    expect(openSnackBar).toHaveBeenCalled();
+  });
+
+  it('takes the score from an echo instead of counting the vote twice', () => {
+    store.vote('POST', 1, post, 'UPVOTE');
+    vi.advanceTimersByTime(400);
+
+    voteUpdates.next({
+      targetId: 1,
+      targetType: 'POST',
+      voteType: 'DOWNVOTE',
+      newScore: 15, // others voted meanwhile
+      userVote: 'DOWNVOTE', // the other voter's, not ours
+    });
+
+    expect(changes.at(-1)).toMatchObject({ score: 15, userVote: 'UPVOTE' });
+  });
+
+  it('keeps newer clicks on top of an echo that arrives while settling', () => {
+    store.vote('POST', 1, post, 'UPVOTE');
+    vi.advanceTimersByTime(400);
+    store.vote('POST', 1, post, 'DOWNVOTE');
+
+    voteUpdates.next({
+      targetId: 1,
+      targetType: 'POST',
+      voteType: 'UPVOTE',
+      newScore: 11,
+      userVote: 'UPVOTE',
+    });
+
+    expect(changes.at(-1)).toMatchObject({ score: 9, userVote: 'DOWNVOTE' });
+  });
+
+  it('passes on live scores for items the user has not voted on', () => {
+    voteUpdates.next({
+      targetId: 2,
+      targetType: 'COMMENT',
+      voteType: 'UPVOTE',
+      newScore: 42,
+      userVote: 'UPVOTE',
+    });
+
+    expect(changes).toEqual([{ target: 'COMMENT', id: 2, score: 42 }]);
+  });
+});
@@ -0,0 +1,169 @@
+import { Injectable, inject } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { applyVote, VoteState, VoteTarget, VoteType } from '../models/post.model';
+import { WebSocketVoteUpdate } from '../models/websocket.model';
+import { VoteService } from './vote.service';
+import { WebSocketService } from './websocket.service';
+
+// A live score for an item the user has not voted on carries only the score
+export interface VoteChange extends Partial<VoteState> {
+  target: VoteTarget;
+  id: number;
+  score: number;
+}
+
+interface VoteEntry {
+  target: VoteTarget;
+  id: number;
+  confirmed: VoteState; // last state the server acknowledged
+  current: VoteState; // what the user sees, including votes not sent yet
+}
+
+/**
+ * Optimistic voting shared by posts and comments.
+ *
+ * Votes show immediately through `changes$`; rapid toggles on one item are
+ * coalesced into a single request for the final vote, at most one request per
+ * item is in flight, and a failed request rolls the item back.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VoteStoreService {
+  private voteService = inject(VoteService);
+  private wsService = inject(WebSocketService);
+  private snackBar = inject(MatSnackBar);
+
+  private readonly SEND_DELAY = 400;
+
+  private entries = new Map<string, VoteEntry>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private inFlight = new Set<string>();
+  private changeSubject = new Subject<VoteChange>();
+
+  constructor() {
+    this.wsService.voteUpdates$.subscribe((update) => this.reconcile(update));
+  }
+
+  get changes$(): Observable<VoteChange> {
+    return this.changeSubject.asObservable();
+  }
+
+  changesFor(target: VoteTarget): Observable<VoteChange> {
+    return this.changes$.pipe(filter((change) => change.target === target));
+  }
+
+  /**
+   * Set the user's vote on an item. `state` is the item as currently shown;
+   * it is only used when no earlier vote on the item is still settling.
+   */
+  vote(target: VoteTarget, id: number, state: VoteState, userVote: VoteType | null): void {
+    const key = this.key(target, id);
+    const entry = this.isSettling(key)
+      ? this.entries.get(key)!
+      : { target, id, confirmed: this.pick(state), current: this.pick(state) };
+
+    this.update(key, { ...entry, current: applyVote(entry.current, userVote) });
+
+    clearTimeout(this.timers.get(key));
+    this.timers.set(
+      key,
+      setTimeout(() => this.send(key), this.SEND_DELAY),
+    );
+  }
+
+  private send(key: string): void {
+    this.timers.delete(key);
+    // The response of the request in flight sends whatever changed meanwhile
+    if (this.inFlight.has(key)) return;
+
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    const desired = entry.current.userVote;
+    const previous = entry.confirmed.userVote;
+    // Toggled back to where the server already is: nothing to send
+    if (desired === previous) return;
+
+    // The API toggles, so repeating the current vote is how a vote is removed
+    const voteType = desired ?? previous!;
+    const request =
+      entry.target === 'POST'
+        ? this.voteService.votePost(entry.id, voteType)
+        : this.voteService.voteComment(entry.id, voteType);
+
+    this.inFlight.add(key);
+    request.subscribe({
+      next: () => {
+        this.inFlight.delete(key);
+        const latest = this.entries.get(key)!;
+        // A WebSocket echo may already have confirmed this vote
+        const confirmed =
+          latest.confirmed.userVote === desired
+            ? latest.confirmed
+            : applyVote(latest.confirmed, desired);
+        this.entries.set(key, { ...latest, confirmed });
+
+        if (!this.timers.has(key)) {
+          this.send(key);
+        }
+      },
+      error: (err) => {
+        console.error('Error voting:', err);
+        this.inFlight.delete(key);
+        clearTimeout(this.timers.get(key));
+        this.timers.delete(key);
+
+        const latest = this.entries.get(key)!;
+        this.update(key, { ...latest, current: latest.confirmed });
+        this.snackBar.open('Your vote could not be saved. Please try again.', 'Close', {
+          duration: 4000,
+        });
+      },
+    });
+  }
+
+  /**
+   * Apply a live score from the vote queue. The queue reports anyone's votes on
+   * the user's content, so only its absolute score is taken; the user's own vote
+   * stays as this store knows it.
+   */
+  private reconcile(update: WebSocketVoteUpdate): void {
+    const key = this.key(update.targetType, update.targetId);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.changeSubject.next({
+        target: update.targetType,
+        id: update.targetId,
+        score: update.newScore,
+      });
+      return;
+    }
+
+    // A score sent mid-request may or may not count that vote yet; keep the
+    // optimistic score until it settles
+    if (this.isSettling(key)) return;
+
+    const confirmed = { ...entry.confirmed, score: update.newScore };
+    this.update(key, { ...entry, confirmed, current: confirmed });
+  }
+
+  private update(key: string, entry: VoteEntry): void {
+    this.entries.set(key, entry);
+    this.changeSubject.next({ target: entry.target, id: entry.id, ...entry.current });
+  }
+
+  private isSettling(key: string): boolean {
+    return this.timers.has(key) || this.inFlight.has(key);
+  }
+
+  private pick({ score, upvoteCount, downvoteCount, userVote }: VoteState): VoteState {
+    return { score, upvoteCount, downvoteCount, userVote };
+  }
+
+  private key(target: VoteTarget, id: number): string {
+    return `${target}:${id}`;
+  }
+}
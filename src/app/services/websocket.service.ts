@@ -1,5 +1,5 @@
 import { Injectable, signal, inject, OnDestroy } from '@angular/core';
-import { Client, IMessage, Stomp } from '@stomp/stompjs';
+import { Client, IMessage, Stomp, StompSubscription } from '@stomp/stompjs';
 import { Subject, Observable } from 'rxjs';
 import { filter, map } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
@@ -18,6 +18,17 @@ import {
   USER_TOPICS,
   PUBLIC_TOPICS,
 } from '../models/websocket.model';
+import { DirectMessage } from '../models/message.model';
+
+type MessageCallback = (message: IMessage) => void;
+
+// One registry entry per STOMP destination, shared by every consumer of it
+interface SubscriptionEntry {
+  refCount: number;
+  handle: StompSubscription | null; // null while queued or the connection is down
+  forward: MessageCallback | null; // pushes into the typed subjects below
+  watchers: Set<MessageCallback>; // consumers that came in through watch()
+}
 
 @Injectable({
   providedIn: 'root',
@@ -46,9 +57,11 @@ export class WebSocketService implements OnDestroy {
   private announcementSubject = new Subject<WebSocketSystemAnnouncement>();
   private subredditUpdateSubject = new Subject<WebSocketSubredditUpdate>();
   private userStatusSubject = new Subject<WebSocketUserStatus>();
+  private messageSubject = new Subject<DirectMessage>();
 
-  // Active subscriptions for cleanup
-  private activeSubscriptions: string[] = [];
+  // Subscription registry; entries without a handle are flushed on every (re)connect
+  private subscriptions = new Map<string, SubscriptionEntry>();
+  private userTopicsRegistered = false;
 
   constructor() {
     // Auto-connect when user is authenticated
@@ -73,6 +86,9 @@ export class WebSocketService implements OnDestroy {
       return;
     }
 
+    // A retry must not leave the previous client reconnecting on its own
+    this.retireClient();
+
     this.setConnectionState('CONNECTING');
 
     // Create STOMP client with SockJS fallback
@@ -98,6 +114,9 @@ export class WebSocketService implements OnDestroy {
       this.reconnectAttempts = 0;
       this.setConnectionState('CONNECTED');
 
+      // Attach everything queued before connect or registered before a drop
+      this.flushSubscriptions();
+
       // Subscribe to user-specific topics
       this.subscribeToUserTopics();
     };
@@ -105,9 +124,15 @@ export class WebSocketService implements OnDestroy {
     // Handle disconnection
     this.client.onDisconnect = () => {
       console.log('WebSocket disconnected');
+      this.detachSubscriptions();
       this.setConnectionState('DISCONNECTED');
     };
 
+    // Handles die with the socket; keep the registry for the next onConnect
+    this.client.onWebSocketClose = () => {
+      this.detachSubscriptions();
+    };
+
     // Handle errors
     this.client.onStompError = (frame) => {
       console.error('STOMP error:', frame.headers['message'], frame.body);
@@ -127,13 +152,33 @@ export class WebSocketService implements OnDestroy {
 
   disconnect(): void {
     if (this.client) {
+      if (this.client.connected) {
+        this.subscriptions.forEach((entry) => entry.handle?.unsubscribe());
+      }
       this.client.deactivate();
       this.client = null;
     }
-    this.activeSubscriptions = [];
+    this.subscriptions.clear();
+    this.userTopicsRegistered = false;
     this.setConnectionState('DISCONNECTED');
   }
 
+  private retireClient(): void {
+    if (!this.client) return;
+
+    const previous = this.client;
+    this.client = null;
+
+    // Silence its callbacks so they can't touch the state of its replacement
+    previous.onConnect = () => {};
+    previous.onDisconnect = () => {};
+    previous.onWebSocketClose = () => {};
+    previous.onStompError = () => {};
+    previous.onWebSocketError = () => {};
+    previous.deactivate();
+    this.detachSubscriptions();
+  }
+
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('Max reconnect attempts reached');
@@ -173,8 +218,9 @@ export class WebSocketService implements OnDestroy {
 
   private subscribeToUserTopics(): void {
     const user = this.authService.currentUser();
-    if (!user) return;
+    if (!user || this.userTopicsRegistered) return;
 
+    this.userTopicsRegistered = true;
     const username = user.username;
 
     // Subscribe to notifications
@@ -206,6 +252,12 @@ export class WebSocketService implements OnDestroy {
       const comment: WebSocketCommentUpdate = JSON.parse(message.body);
       this.commentUpdateSubject.next(comment);
     });
+
+    // Subscribe to direct messages
+    this.subscribe(USER_TOPICS.messages(username), (message) => {
+      const directMessage: DirectMessage = JSON.parse(message.body);
+      this.messageSubject.next(directMessage);
+    });
   }
 
   // ── Public Topic Subscriptions ──
@@ -218,7 +270,8 @@ export class WebSocketService implements OnDestroy {
 
     this.subscribe(PUBLIC_TOPICS.postComments(postId), (message) => {
       const comment: WebSocketCommentUpdate = JSON.parse(message.body);
-      this.commentUpdateSubject.next(comment);
+      // The topic identifies the post even when the payload does not
+      this.commentUpdateSubject.next({ ...comment, postId: comment.postId ?? postId });
     });
   }
 
@@ -254,23 +307,96 @@ export class WebSocketService implements OnDestroy {
 
   // ── Generic Subscribe/Unsubscribe ──
 
-  private subscribe(destination: string, callback: (message: IMessage) => void): void {
-    if (!this.client?.connected) {
-      console.warn('Cannot subscribe, WebSocket not connected:', destination);
-      return;
+  /**
+   * Typed stream of the messages on a destination. The STOMP subscription is
+   * shared with other consumers, queued until connected, and released when the
+   * last subscriber unsubscribes.
+   */
+  watch<T>(destination: string): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const entry = this.acquire(destination);
+      const watcher: MessageCallback = (message) => {
+        try {
+          subscriber.next(JSON.parse(message.body) as T);
+        } catch (err) {
+          console.error('Invalid WebSocket payload on', destination, err);
+        }
+      };
+      entry.watchers.add(watcher);
+
+      return () => {
+        entry.watchers.delete(watcher);
+        this.release(destination);
+      };
+    });
+  }
+
+  private subscribe(destination: string, callback: MessageCallback): void {
+    const entry = this.acquire(destination);
+    entry.forward ??= callback;
+  }
+
+  private unsubscribe(destination: string): void {
+    this.release(destination);
+  }
+
+  private acquire(destination: string): SubscriptionEntry {
+    const existing = this.subscriptions.get(destination);
+    if (existing) {
+      // Another consumer of a destination we already listen on
+      existing.refCount++;
+      return existing;
+    }
+
+    const entry: SubscriptionEntry = {
+      refCount: 1,
+      handle: null,
+      forward: null,
+      watchers: new Set(),
+    };
+    this.subscriptions.set(destination, entry);
+
+    if (this.client?.connected) {
+      this.attach(destination, entry);
+    } else {
+      console.log('Queued subscription until connected:', destination);
+    }
+    return entry;
+  }
+
+  private release(destination: string): void {
+    const entry = this.subscriptions.get(destination);
+    if (!entry) return;
+
+    entry.refCount--;
+    if (entry.refCount > 0) return;
+
+    // Last consumer left: drop the STOMP subscription for real
+    if (this.client?.connected) {
+      entry.handle?.unsubscribe();
     }
+    this.subscriptions.delete(destination);
+    console.log('Unsubscribed from:', destination);
+  }
 
-    const subscription = this.client.subscribe(destination, callback);
-    this.activeSubscriptions.push(destination);
+  private attach(destination: string, entry: SubscriptionEntry): void {
+    entry.handle = this.client!.subscribe(destination, (message) => {
+      entry.forward?.(message);
+      entry.watchers.forEach((watcher) => watcher(message));
+    });
     console.log('Subscribed to:', destination);
   }
 
-  private unsubscribe(destination: string): void {
+  private flushSubscriptions(): void {
     if (!this.client?.connected) return;
 
-    // STOMP.js handles subscription cleanup automatically
-    this.activeSubscriptions = this.activeSubscriptions.filter((d) => d !== destination);
-    console.log('Unsubscribed from:', destination);
+    this.subscriptions.forEach((entry, destination) => {
+      if (!entry.handle) this.attach(destination, entry);
+    });
+  }
+
+  private detachSubscriptions(): void {
+    this.subscriptions.forEach((entry) => (entry.handle = null));
   }
 
   // ── Observables for Components ──
@@ -307,6 +433,10 @@ export class WebSocketService implements OnDestroy {
     return this.userStatusSubject.asObservable();
   }
 
+  get messages$(): Observable<DirectMessage> {
+    return this.messageSubject.asObservable();
+  }
+
   // ── Filtered Observables ──
 
   getPostUpdates(postId: number): Observable<WebSocketPostUpdate> {
@@ -314,7 +444,7 @@ export class WebSocketService implements OnDestroy {
   }
 
   getCommentUpdatesForPost(postId: number): Observable<WebSocketCommentUpdate> {
-    return this.commentUpdates$;
+    return this.commentUpdates$.pipe(filter((update) => update.postId === postId));
   }
 
   getVoteUpdatesForTarget(targetId: number, targetType: 'POST' | 'COMMENT'): Observable<WebSocketVoteUpdate> {
@@ -0,0 +1,160 @@
+import { renderMarkdown } from './markdown.utils';
+
+function render(source: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(source);
+  return container;
+}
+
+describe('renderMarkdown', () => {
+  describe('formatting', () => {
+    it('renders CommonMark emphasis, lists and blockquotes', () => {
+      const html = render('**bold** *italic*\n\n- one\n- two\n\n> quoted');
+      expect(html.querySelector('strong')?.textContent).toBe('bold');
+      expect(html.querySelector('em')?.textContent).toBe('italic');
+      expect(html.querySelectorAll('li').length).toBe(2);
+      expect(html.querySelector('blockquote')?.textContent?.trim()).toBe('quoted');
+    });
+
+    it('renders tables and strikethrough', () => {
+      const html = render('| a | b |\n| - | - |\n| 1 | 2 |\n\n~~gone~~');
+      expect(html.querySelectorAll('th').length).toBe(2);
+      expect(html.querySelectorAll('td').length).toBe(2);
+      expect(html.querySelector('del')?.textContent).toBe('gone');
+    });
+
+    it('renders inline and line-leading spoilers', () => {
+      const inline = render('the butler >!did it!< all along');
+      expect(inline.querySelector('.md-spoiler')?.textContent).toBe('did it');
+
+      const leading = render('>!whole line spoiler!<');
+      expect(leading.querySelector('blockquote')).toBeNull();
+      expect(leading.querySelector('.md-spoiler')?.textContent).toBe('whole line spoiler');
+    });
+
+    it('highlights fenced code blocks for known languages', () => {
+      const html = render('```typescript\nconst answer = 42;\n```');
+      const code = html.querySelector('pre code');
+      expect(code?.classList).toContain('language-typescript');
+      expect(code?.querySelector('.hljs-keyword')?.textContent).toBe('const');
+    });
+
+    it('links u/ and r/ mentions inside the app', () => {
+      const html = render('thanks u/some_user, see r/angular and /r/typescript');
+      const links = Array.from(html.querySelectorAll('a.md-mention'));
+      expect(links.map((a) => a.getAttribute('href'))).toEqual([
+        '/user/some_user',
+        '/r/angular',
+        '/r/typescript',
+      ]);
+      expect(links[0].getAttribute('target')).toBeNull();
+    });
+
+    it('does not treat paths or words as mentions', () => {
+      const html = render('menu/u/nobody and https://example.com/r/nothing');
+      expect(html.querySelector('a.md-mention')).toBeNull();
+    });
+
+    it('opens external links in a new tab without an opener', () => {
+      const link = render('[docs](https://angular.dev)').querySelector('a');
+      expect(link?.getAttribute('target')).toBe('_blank');
+      expect(link?.getAttribute('rel')).toBe('noopener noreferrer nofollow');
+    });
+  });
+
+  describe('sanitization', () => {
+    it('shows raw HTML as text instead of interpreting it', () => {
+      const html = render('<script>alert(1)</script>\n\nhello <b onclick="x()">there</b>');
+      expect(html.querySelector('script')).toBeNull();
+      expect(html.querySelector('b')).toBeNull();
+      expect(html.textContent).toContain('<script>alert(1)</script>');
+    });
+
+    it('never emits event handler attributes', () => {
+      const source = '<img src=x onerror="alert(1)">\n\n<svg onload=alert(1)>';
+      const output = renderMarkdown(source);
+      const html = render(source);
+      expect(html.querySelector('[onerror], [onload]')).toBeNull();
+      expect(html.querySelector('svg')).toBeNull();
+      expect(output).not.toMatch(/<[^>]+\son\w+=/i);
+    });
+
+    it('strips javascript:, vbscript: and data: link targets', () => {
+      const html = render(
+        '[a](javascript:alert(1)) [b](JaVaScRiPt:alert(1)) [c](vbscript:msgbox(1)) ' +
+          '[d](data:text/html;base64,PHNjcmlwdD4=) [e](jav&#x09;ascript:alert(1))',
+      );
+      const links = Array.from(html.querySelectorAll('a'));
+      expect(links.length).toBeGreaterThan(0);
+      for (const link of links) {
+        expect(link.getAttribute('href')).toBeNull();
+      }
+    });
+
+    it('strips protocol-relative links', () => {
+      const link = render('[x](//evil.example/path)').querySelector('a');
+      expect(link?.getAttribute('href')).toBeNull();
+    });
+
+    it('strips links that browsers read as protocol-relative', () => {
+      const html = render(
+        '[a](/&#92;evil.example/path) [b](/&#9;/evil.example) [c](/&#10;/evil.example) ' +
+          '[d](/&#13;/evil.example)',
+      );
+      const links = Array.from(html.querySelectorAll('a'));
+      expect(links.length).toBe(4);
+      for (const link of links) {
+        expect(link.getAttribute('href')).toBeNull();
+      }
+    });
+
+    it('keeps links within the site', () => {
+      const html = render('[a](/r/angular/about) [b](#comments)');
+      const hrefs = Array.from(html.querySelectorAll('a')).map((a) => a.getAttribute('href'));
+      expect(hrefs).toEqual(['/r/angular/about', '#comments']);
+    });
+
+    it('only loads images over https', () => {
+      const html = render(
+        '![a](javascript:alert(1)) ![b](http://example.com/b.png) ![c](https://example.com/c.png)',
+      );
+      const sources = Array.from(html.querySelectorAll('img')).map((img) => img.getAttribute('src'));
+      expect(sources).toEqual([null, null, 'https://example.com/c.png']);
+    });
+
+    it('escapes markup inside code blocks and spans', () => {
+      const html = render(
+        '`<img src=x onerror=alert(1)>`\n\n```html\n<script>alert(1)</script>\n```',
+      );
+      expect(html.querySelector('img')).toBeNull();
+      expect(html.querySelector('script')).toBeNull();
+      expect(html.querySelector('pre')?.textContent).toContain('<script>alert(1)</script>');
+    });
+
+    it('keeps attribute injection out of link titles', () => {
+      const html = render('[x](https://example.com "a\\" onmouseover=\\"alert(1)")');
+      const link = html.querySelector('a');
+      expect(link?.getAttribute('onmouseover')).toBeNull();
+    });
+
+    it('drops iframes, forms and style attributes', () => {
+      const html = render(
+        '<iframe src="https://evil.example"></iframe>\n\n<form><input name="p"></form>',
+      );
+      expect(html.querySelector('iframe, form, [style]')).toBeNull();
+      expect(html.querySelector('input[name]')).toBeNull();
+    });
+
+    it('keeps task list checkboxes inert', () => {
+      const input = render('- [x] done').querySelector('input');
+      expect(input?.getAttribute('type')).toBe('checkbox');
+      expect(input?.hasAttribute('disabled')).toBe(true);
+    });
+
+    it('returns an empty string for empty content', () => {
+      expect(renderMarkdown('')).toBe('');
+      expect(renderMarkdown(null)).toBe('');
+      expect(renderMarkdown(undefined)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,224 @@
+// ── Markdown rendering for posts and comments ──
+//
+// CommonMark + GFM tables/strikethrough, Reddit-style spoilers (>!text!<),
+// highlighted code blocks and u/user, r/sub mentions. The output is sanitized
+// and safe to bind with [innerHTML] once trusted.
+
+import { Marked, TokenizerAndRendererExtension, Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import css from 'highlight.js/lib/languages/css';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+
+// Same rules as registration: 3-21 letters, digits, underscores or hyphens
+const MENTION_PATTERN = /^\/?([ur])\/([A-Za-z0-9_-]{3,21})(?![A-Za-z0-9_-])/;
+// A mention starts a word; "menu/u/x" or "example.com/r/x" is not one
+const MENTION_START = /(?:^|[^\w/])(\/?[ur]\/[A-Za-z0-9_-])/;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const ABSOLUTE_URL = /^(?:https?:|mailto:)/i;
+// Browsers drop these from URLs, so "/<TAB>/evil.example" is "//evil.example"
+const URL_IGNORED_CHARS = /[\x00-\x20]/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const spoiler: TokenizerAndRendererExtension = {
+  name: 'spoiler',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('>!');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^>!(?=\S)([\s\S]*?\S)!</.exec(src);
+    if (!match) return undefined;
+    return {
+      type: 'spoiler',
+      raw: match[0],
+      tokens: this.lexer.inlineTokens(match[1]),
+    };
+  },
+  renderer(token) {
+    const content = this.parser.parseInline(token.tokens ?? []);
+    return `<span class="md-spoiler" title="Reveal spoiler">${content}</span>`;
+  },
+};
+
+// ">!" at the start of a line is a spoiler, not a blockquote
+const spoilerParagraph: TokenizerAndRendererExtension = {
+  name: 'spoilerParagraph',
+  level: 'block',
+  start(src) {
+    return /^>!/m.exec(src)?.index;
+  },
+  tokenizer(src) {
+    const match = /^>![^\n]*(?:\n(?![ \t]*\n|>)[^\n]*)*/.exec(src);
+    if (!match || !match[0].includes('!<')) return undefined;
+    return {
+      type: 'spoilerParagraph',
+      raw: match[0],
+      tokens: this.lexer.inlineTokens(match[0]),
+    };
+  },
+  renderer(token) {
+    return `<p>${this.parser.parseInline(token.tokens ?? [])}</p>\n`;
+  },
+};
+
+const mention: TokenizerAndRendererExtension = {
+  name: 'mention',
+  level: 'inline',
+  start(src) {
+    const match = MENTION_START.exec(src);
+    return match ? match.index + match[0].length - match[1].length : undefined;
+  },
+  tokenizer(src) {
+    const match = MENTION_PATTERN.exec(src);
+    if (!match) return undefined;
+    return {
+      type: 'mention',
+      raw: match[0],
+      kind: match[1],
+      name: match[2],
+    };
+  },
+  renderer(token) {
+    const path = token['kind'] === 'u' ? `/user/${token['name']}` : `/r/${token['name']}`;
+    return `<a class="md-mention" href="${path}">${token['kind']}/${token['name']}</a>`;
+  },
+};
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: false,
+  extensions: [spoilerParagraph, spoiler, mention],
+  renderer: {
+    // Raw HTML in the source is shown as text, never interpreted
+    html({ text }: Tokens.HTML | Tokens.Tag): string {
+      return escapeHtml(text);
+    },
+    code({ text, lang }: Tokens.Code): string {
+      const language = (lang ?? '').trim().split(/\s+/)[0].toLowerCase();
+      const highlighted = hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : escapeHtml(text);
+      const languageClass = hljs.getLanguage(language) ? ` language-${language}` : '';
+      return `<pre><code class="hljs${languageClass}">${highlighted}</code></pre>\n`;
+    },
+  },
+});
+
+const ALLOWED_TAGS = [
+  'a',
+  'blockquote',
+  'br',
+  'code',
+  'del',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'img',
+  'input', // GFM task list checkboxes
+  'li',
+  'ol',
+  'p',
+  'pre',
+  's',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+];
+
+const ALLOWED_ATTR = ['align', 'alt', 'checked', 'class', 'disabled', 'href', 'src', 'title', 'type'];
+
+/**
+ * Resolve a link the way the browser will. External links must use a safe
+ * protocol; relative links must stay on this site.
+ */
+function classifyLink(href: string): 'internal' | 'external' | null {
+  let url: URL;
+  try {
+    url = new URL(href, location.origin);
+  } catch {
+    return null;
+  }
+
+  if (!SAFE_PROTOCOLS.includes(url.protocol)) return null;
+  if (ABSOLUTE_URL.test(href.replace(URL_IGNORED_CHARS, ''))) return 'external';
+  return url.origin === location.origin ? 'internal' : null;
+}
+
+// Own instance so these hooks never leak into other DOMPurify users
+const purifier = DOMPurify(window);
+
+purifier.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    const kind = classifyLink(node.getAttribute('href') ?? '');
+    if (!kind) {
+      node.removeAttribute('href');
+    } else if (kind === 'external') {
+      node.setAttribute('target', '_blank');
+      node.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+  }
+
+  if (node.tagName === 'IMG') {
+    const src = node.getAttribute('src') ?? '';
+    if (!/^https:/i.test(src)) {
+      node.removeAttribute('src');
+    }
+    node.setAttribute('loading', 'lazy');
+  }
+
+  if (node.tagName === 'INPUT') {
+    node.setAttribute('type', 'checkbox');
+    node.setAttribute('disabled', '');
+  }
+});
+
+/**
+ * Render user-authored markdown to sanitized HTML
+ */
+export function renderMarkdown(source: string | null | undefined): string {
+  if (!source) return '';
+
+  const html = markdown.parse(source, { async: false });
+  return purifier.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR, ALLOW_DATA_ATTR: false });
+}